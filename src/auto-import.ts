@@ -0,0 +1,223 @@
+/**
+ * Auto Import
+ *
+ * Adds missing imports of Zenith core (`zenith`, `zenith/*`) and plugin
+ * (`zenith:*`) exports: a diagnostic with a quick fix when a script uses
+ * an export it does not import, and completions that insert the import
+ * when accepted. The import goes into an existing named import from the
+ * same module, or a new import line after the script's last import.
+ */
+
+import ts from 'typescript';
+
+import { findExportModules, getAllModules, getModuleExports } from './imports';
+import { ROUTER_HOOKS } from './router';
+import { getParsedDocument, type ZenDocument } from './parser';
+import { scanIdentifiers } from './script-symbols';
+import { desugarStateDeclarations } from './script-projection';
+import { MISSING_IMPORT_DIAGNOSTIC_CODE } from './code-actions';
+import type { ZenithDiagnostic, ZenithRange, ZenithTextDocumentLike } from './diagnostics';
+import { CompletionItemKind, DiagnosticSeverity } from './protocol';
+
+export interface ZenithTextEdit {
+    range: ZenithRange;
+    newText: string;
+}
+
+/**
+ * Import fixes carried by missing-import diagnostics, one per module that
+ * exports the name.
+ */
+export interface AutoImportCodeActionData {
+    fixes: Array<{ title: string; edits: ZenithTextEdit[] }>;
+}
+
+export interface ZenithAutoImportCompletionItem {
+    label: string;
+    kind: number;
+    detail: string;
+    documentation: string;
+    insertText: string;
+    sortText: string;
+    additionalTextEdits: ZenithTextEdit[];
+}
+
+/**
+ * Edit that imports `exportName` from `moduleName` in the document's
+ * first <script>, or null when the document has no script.
+ */
+export function buildImportEdit(
+    document: ZenithTextDocumentLike,
+    doc: ZenDocument,
+    moduleName: string,
+    exportName: string
+): ZenithTextEdit | null {
+    const block = doc.scripts[0];
+    if (!block) {
+        return null;
+    }
+
+    const source = ts.createSourceFile('imports.ts', desugarStateDeclarations(block.content), ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const imports = source.statements.filter(ts.isImportDeclaration);
+    const at = (offset: number) => document.positionAt(block.contentStart + offset);
+
+    // Extend `import { a } from 'module'`.
+    for (const declaration of imports) {
+        const clause = declaration.importClause;
+        const bindings = clause?.namedBindings;
+        if (
+            ts.isStringLiteral(declaration.moduleSpecifier) && declaration.moduleSpecifier.text === moduleName &&
+            clause && !clause.isTypeOnly && bindings && ts.isNamedImports(bindings)
+        ) {
+            const last = bindings.elements[bindings.elements.length - 1];
+            if (!last) {
+                const open = bindings.getStart(source) + 1;
+                return { range: { start: at(open), end: at(open) }, newText: ` ${exportName} ` };
+            }
+
+            // Multi-line imports get the new name on its own line.
+            const lastStart = last.getStart(source);
+            const lineStart = source.text.lastIndexOf('\n', lastStart - 1) + 1;
+            const ownLine = /^[ \t]*$/.test(source.text.slice(lineStart, lastStart));
+            const separator = ownLine ? `,\n${source.text.slice(lineStart, lastStart)}` : ', ';
+            return { range: { start: at(last.getEnd()), end: at(last.getEnd()) }, newText: `${separator}${exportName}` };
+        }
+    }
+
+    // New import line after the last import, or at the start of the script.
+    const statement = `import { ${exportName} } from '${moduleName}'`;
+    const lastImport = imports[imports.length - 1];
+    if (lastImport) {
+        const lineStart = source.text.lastIndexOf('\n', lastImport.getStart(source) - 1) + 1;
+        const indent = source.text.slice(lineStart, lastImport.getStart(source)).match(/^[ \t]*/)?.[0] ?? '';
+        return { range: { start: at(lastImport.getEnd()), end: at(lastImport.getEnd()) }, newText: `\n${indent}${statement}` };
+    }
+
+    const firstLine = source.text.match(/^\r?\n?/)?.[0].length ?? 0;
+    const indent = source.text.slice(firstLine).match(/^[ \t]*/)?.[0] ?? '';
+    return { range: { start: at(firstLine), end: at(firstLine) }, newText: `${indent}${statement}\n` };
+}
+
+/**
+ * Names a document already declares anywhere in its scripts: imports,
+ * functions, classes, types, variables (including destructured ones),
+ * parameters and catch / for-of bindings. Taken from the TypeScript AST
+ * so any local binding shadows a core export of the same name.
+ */
+function getDeclaredNames(doc: ZenDocument): Set<string> {
+    const declared = new Set<string>();
+
+    const addName = (name: ts.BindingName) => {
+        if (ts.isIdentifier(name)) {
+            declared.add(name.text);
+            return;
+        }
+        for (const element of name.elements) {
+            if (!ts.isOmittedExpression(element)) addName(element.name);
+        }
+    };
+
+    const visit = (node: ts.Node) => {
+        if (ts.isParameter(node) || ts.isVariableDeclaration(node)) {
+            addName(node.name);
+        } else if (
+            (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isClassDeclaration(node) ||
+                ts.isClassExpression(node) || ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node) ||
+                ts.isEnumDeclaration(node) || ts.isImportClause(node) || ts.isImportSpecifier(node) ||
+                ts.isNamespaceImport(node) || ts.isImportEqualsDeclaration(node)) &&
+            node.name
+        ) {
+            declared.add(node.name.text);
+        }
+        ts.forEachChild(node, visit);
+    };
+
+    for (const block of doc.scripts) {
+        visit(ts.createSourceFile('declarations.ts', desugarStateDeclarations(block.content), ts.ScriptTarget.Latest, true, ts.ScriptKind.TS));
+    }
+
+    return declared;
+}
+
+function buildFixes(document: ZenithTextDocumentLike, doc: ZenDocument, name: string, modules: string[]): AutoImportCodeActionData {
+    const fixes: AutoImportCodeActionData['fixes'] = [];
+    for (const moduleName of modules) {
+        const edit = buildImportEdit(document, doc, moduleName, name);
+        if (edit) {
+            fixes.push({ title: `Import '${name}' from '${moduleName}'`, edits: [edit] });
+        }
+    }
+    return { fixes };
+}
+
+/**
+ * Import fixes for a name, for diagnostics reported elsewhere (router hooks).
+ */
+export function getAutoImportData(document: ZenithTextDocumentLike, doc: ZenDocument, name: string): AutoImportCodeActionData {
+    return buildFixes(document, doc, name, findExportModules(name));
+}
+
+/**
+ * Script references to core and plugin exports that are not imported.
+ * Router hooks are reported by the router hook rules, and PascalCase
+ * exports (components such as ZenLink and Image) are used as tags.
+ */
+export function collectMissingImportDiagnostics(document: ZenithTextDocumentLike, doc: ZenDocument): ZenithDiagnostic[] {
+    const diagnostics: ZenithDiagnostic[] = [];
+    const declared = getDeclaredNames(doc);
+
+    for (const block of doc.scripts) {
+        for (const reference of scanIdentifiers(block.content, block.contentStart)) {
+            const name = reference.name;
+            if (declared.has(name) || name in ROUTER_HOOKS || /^[A-Z]/.test(name)) continue;
+
+            const modules = findExportModules(name);
+            if (modules.length === 0) continue;
+
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: { start: document.positionAt(reference.start), end: document.positionAt(reference.end) },
+                message: `'${name}' is exported by ${modules.map((mod) => `'${mod}'`).join(' and ')} but not imported.`,
+                source: 'zenith',
+                code: MISSING_IMPORT_DIAGNOSTIC_CODE,
+                data: buildFixes(document, doc, name, modules)
+            });
+        }
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Completions for core and plugin exports the document does not import
+ * yet, each inserting its import when accepted.
+ */
+export function getAutoImportCompletions(document: ZenithTextDocumentLike, prefix: string): ZenithAutoImportCompletionItem[] {
+    const doc = getParsedDocument(document.uri, document.getText());
+    const declared = getDeclaredNames(doc);
+    const items: ZenithAutoImportCompletionItem[] = [];
+
+    for (const mod of getAllModules()) {
+        for (const exp of getModuleExports(mod.module)) {
+            if (declared.has(exp.name) || !exp.name.toLowerCase().startsWith(prefix.toLowerCase())) continue;
+            if (items.some((item) => item.label === exp.name)) continue;
+
+            const edit = buildImportEdit(document, doc, mod.module, exp.name);
+            if (!edit) continue;
+
+            items.push({
+                label: exp.name,
+                kind: exp.kind === 'component'
+                    ? CompletionItemKind.Class
+                    : exp.kind === 'type' ? CompletionItemKind.Interface : exp.kind === 'variable' ? CompletionItemKind.Variable : CompletionItemKind.Function,
+                detail: `Auto import from '${mod.module}'`,
+                documentation: exp.signature ? `${exp.description}\n\n${exp.signature}` : exp.description,
+                insertText: exp.name,
+                sortText: `1_${exp.name}`,
+                additionalTextEdits: [edit]
+            });
+        }
+    }
+
+    return items;
+}
@@ -2,9 +2,30 @@ import {
     ZenithDiagnostic,
     ZenithRange
 } from './diagnostics';
+import type { RouterHookCodeActionData } from './router-hooks';
+import type { AutoImportCodeActionData } from './auto-import';
+import type { UnusedSymbolCodeActionData } from './unused-symbols';
 
 export const EVENT_BINDING_DIAGNOSTIC_CODE = 'zenith.event.binding.syntax';
 
+export const AMBIGUOUS_COMPONENT_DIAGNOSTIC_CODE = 'zenith.component.ambiguous';
+export const SHORT_COMPONENT_NAME_DIAGNOSTIC_CODE = 'zenith.component.shortName';
+
+export const UNKNOWN_PROP_DIAGNOSTIC_CODE = 'zenith.prop.unknown';
+export const MISSING_PROP_DIAGNOSTIC_CODE = 'zenith.prop.missing';
+export const PROP_TYPE_DIAGNOSTIC_CODE = 'zenith.prop.type';
+
+export const UNKNOWN_ROUTE_DIAGNOSTIC_CODE = 'zenith.route.unknown';
+export const UNKNOWN_ROUTE_PARAM_DIAGNOSTIC_CODE = 'zenith.route.param.unknown';
+
+export const ROUTER_HOOK_PLACEMENT_DIAGNOSTIC_CODE = 'zenith.router.hook.placement';
+export const ROUTER_HOOK_IMPORT_DIAGNOSTIC_CODE = 'zenith.router.hook.import';
+
+export const MISSING_IMPORT_DIAGNOSTIC_CODE = 'zenith.import.missing';
+export const UNRESOLVED_IMPORT_DIAGNOSTIC_CODE = 'zenith.import.unresolved';
+
+export const UNUSED_SYMBOL_DIAGNOSTIC_CODE = 'zenith.unused';
+
 export const ZEN_DOM_QUERY = 'ZEN-DOM-QUERY';
 export const ZEN_DOM_LISTENER = 'ZEN-DOM-LISTENER';
 export const ZEN_DOM_WRAPPER = 'ZEN-DOM-WRAPPER';
@@ -14,6 +35,31 @@ export interface EventBindingCodeActionData {
     title: string;
 }
 
+/**
+ * Replacement carried by prop diagnostics that have a quick fix
+ * (did-you-mean renames and string-literal-to-expression conversions).
+ */
+export interface PropCodeActionData {
+    replacement: string;
+    title: string;
+}
+
+/**
+ * Closest route paths carried by unknown-route diagnostics, closest first.
+ */
+export interface RouteCodeActionData {
+    suggestions: string[];
+}
+
+/**
+ * Qualified-name replacements carried by ambiguous-component and
+ * short-name diagnostics, one per matching component, each renaming the
+ * opening and closing tag.
+ */
+export interface AmbiguousComponentCodeActionData {
+    fixes: Array<{ title: string; edits: Array<{ range: ZenithRange; newText: string }> }>;
+}
+
 export interface ZenithCodeAction {
     title: string;
     kind: string;
@@ -66,6 +112,209 @@ export function buildEventBindingCodeActions(
     return actions;
 }
 
+export function buildPropCodeActions(
+    document: ZenithTextDocumentLike,
+    diagnostics: ZenithDiagnostic[]
+): ZenithCodeAction[] {
+    const actions: ZenithCodeAction[] = [];
+
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.code !== UNKNOWN_PROP_DIAGNOSTIC_CODE && diagnostic.code !== PROP_TYPE_DIAGNOSTIC_CODE) {
+            continue;
+        }
+
+        const data = diagnostic.data as PropCodeActionData | undefined;
+        if (!data || typeof data.replacement !== 'string' || typeof data.title !== 'string') {
+            continue;
+        }
+
+        actions.push({
+            title: data.title,
+            kind: 'quickfix',
+            diagnostics: [diagnostic],
+            edit: {
+                changes: {
+                    [document.uri]: [{
+                        range: diagnostic.range,
+                        newText: data.replacement
+                    }]
+                }
+            },
+            isPreferred: true
+        });
+    }
+
+    return actions;
+}
+
+export function buildAmbiguousComponentCodeActions(
+    document: ZenithTextDocumentLike,
+    diagnostics: ZenithDiagnostic[]
+): ZenithCodeAction[] {
+    const actions: ZenithCodeAction[] = [];
+
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.code !== AMBIGUOUS_COMPONENT_DIAGNOSTIC_CODE && diagnostic.code !== SHORT_COMPONENT_NAME_DIAGNOSTIC_CODE) {
+            continue;
+        }
+
+        const data = diagnostic.data as AmbiguousComponentCodeActionData | undefined;
+        if (!data || !Array.isArray(data.fixes)) {
+            continue;
+        }
+
+        for (const fix of data.fixes) {
+            actions.push({
+                title: fix.title,
+                kind: 'quickfix',
+                diagnostics: [diagnostic],
+                edit: {
+                    changes: {
+                        [document.uri]: fix.edits
+                    }
+                }
+            });
+        }
+    }
+
+    return actions;
+}
+
+export function buildRouteCodeActions(
+    document: ZenithTextDocumentLike,
+    diagnostics: ZenithDiagnostic[]
+): ZenithCodeAction[] {
+    const actions: ZenithCodeAction[] = [];
+
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.code !== UNKNOWN_ROUTE_DIAGNOSTIC_CODE) {
+            continue;
+        }
+
+        const data = diagnostic.data as RouteCodeActionData | undefined;
+        if (!data || !Array.isArray(data.suggestions)) {
+            continue;
+        }
+
+        data.suggestions.forEach((suggestion, index) => {
+            actions.push({
+                title: `Change to '${suggestion}'`,
+                kind: 'quickfix',
+                diagnostics: [diagnostic],
+                edit: {
+                    changes: {
+                        [document.uri]: [{
+                            range: diagnostic.range,
+                            newText: suggestion
+                        }]
+                    }
+                },
+                isPreferred: index === 0
+            });
+        });
+    }
+
+    return actions;
+}
+
+export function buildRouterHookCodeActions(
+    document: ZenithTextDocumentLike,
+    diagnostics: ZenithDiagnostic[]
+): ZenithCodeAction[] {
+    const actions: ZenithCodeAction[] = [];
+
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.code !== ROUTER_HOOK_PLACEMENT_DIAGNOSTIC_CODE) {
+            continue;
+        }
+
+        const data = diagnostic.data as RouterHookCodeActionData | undefined;
+        if (!data || typeof data.title !== 'string' || !Array.isArray(data.edits)) {
+            continue;
+        }
+
+        actions.push({
+            title: data.title,
+            kind: 'quickfix',
+            diagnostics: [diagnostic],
+            edit: {
+                changes: {
+                    [document.uri]: data.edits
+                }
+            },
+            isPreferred: true
+        });
+    }
+
+    return actions;
+}
+
+export function buildAutoImportCodeActions(
+    document: ZenithTextDocumentLike,
+    diagnostics: ZenithDiagnostic[]
+): ZenithCodeAction[] {
+    const actions: ZenithCodeAction[] = [];
+
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.code !== MISSING_IMPORT_DIAGNOSTIC_CODE && diagnostic.code !== ROUTER_HOOK_IMPORT_DIAGNOSTIC_CODE) {
+            continue;
+        }
+
+        const data = diagnostic.data as AutoImportCodeActionData | undefined;
+        if (!data || !Array.isArray(data.fixes)) {
+            continue;
+        }
+
+        data.fixes.forEach((fix, index) => {
+            actions.push({
+                title: fix.title,
+                kind: 'quickfix',
+                diagnostics: [diagnostic],
+                edit: {
+                    changes: {
+                        [document.uri]: fix.edits
+                    }
+                },
+                isPreferred: index === 0
+            });
+        });
+    }
+
+    return actions;
+}
+
+export function buildUnusedSymbolCodeActions(
+    document: ZenithTextDocumentLike,
+    diagnostics: ZenithDiagnostic[]
+): ZenithCodeAction[] {
+    const actions: ZenithCodeAction[] = [];
+
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.code !== UNUSED_SYMBOL_DIAGNOSTIC_CODE) {
+            continue;
+        }
+
+        const data = diagnostic.data as UnusedSymbolCodeActionData | undefined;
+        if (!data || typeof data.title !== 'string' || !Array.isArray(data.edits)) {
+            continue;
+        }
+
+        actions.push({
+            title: data.title,
+            kind: 'quickfix',
+            diagnostics: [diagnostic],
+            edit: {
+                changes: {
+                    [document.uri]: data.edits
+                }
+            },
+            isPreferred: true
+        });
+    }
+
+    return actions;
+}
+
 export function buildDomLintCodeActions(
     document: ZenithTextDocumentLike,
     diagnostics: ZenithDiagnostic[]
@@ -0,0 +1,232 @@
+/**
+ * Component Props
+ *
+ * Reads the props a component or layout accepts from its source:
+ * - `interface Props { ... }` / `type Props = { ... }` in <script>, with
+ *   optional markers, JSDoc descriptions and `@default` tags
+ * - defaults from destructuring (`const { size = 'md' } = props`)
+ * - without a Props declaration, identifiers the template uses but
+ *   nothing in the file declares
+ */
+
+import ts from 'typescript';
+
+import { parseForExpression } from './metadata/directive-metadata';
+import { parseZenDocument, getTemplateCodeSpans, type ZenDocument } from './parser';
+import { collectScriptSymbols, scanIdentifiers } from './script-symbols';
+import { desugarStateDeclarations } from './script-projection';
+
+export interface ComponentProp {
+    name: string;
+    /** Type annotation as written, or 'any' when unknown. */
+    type: string;
+    required: boolean;
+    defaultValue?: string;
+    description?: string;
+    /** Inferred from template usage rather than declared in a Props type. */
+    inferred?: boolean;
+}
+
+const TEMPLATE_GLOBALS = new Set([
+    'true', 'false', 'null', 'undefined', 'NaN', 'Infinity', 'this', 'typeof', 'instanceof', 'in',
+    'new', 'void', 'delete', 'await', 'async', 'function', 'return', 'if', 'else', 'const', 'let', 'var',
+    'Math', 'JSON', 'Date', 'Number', 'String', 'Boolean', 'Array', 'Object', 'Promise', 'RegExp',
+    'Intl', 'Map', 'Set', 'Symbol', 'Error', 'console', 'window', 'document', 'globalThis',
+    'parseInt', 'parseFloat', 'isNaN', 'isFinite', 'encodeURIComponent', 'decodeURIComponent',
+    'event', 'props', 'children', 'slot'
+]);
+
+function getJsDoc(node: ts.Node): { description?: string; defaultValue?: string } {
+    let description: string | undefined;
+    let defaultValue: string | undefined;
+
+    for (const doc of ts.getJSDocCommentsAndTags(node)) {
+        if (!ts.isJSDoc(doc)) continue;
+
+        const comment = ts.getTextOfJSDocComment(doc.comment)?.trim();
+        if (comment) description = comment;
+
+        for (const tag of doc.tags ?? []) {
+            if (tag.tagName.text === 'default' || tag.tagName.text === 'defaultValue') {
+                defaultValue = ts.getTextOfJSDocComment(tag.comment)?.trim() || undefined;
+            }
+        }
+    }
+
+    return { description, defaultValue };
+}
+
+function getPropertyName(name: ts.PropertyName, source: ts.SourceFile): string {
+    return ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : name.getText(source);
+}
+
+function readMembers(members: ts.NodeArray<ts.TypeElement>, source: ts.SourceFile): ComponentProp[] {
+    const props: ComponentProp[] = [];
+
+    for (const member of members) {
+        if (!ts.isPropertySignature(member) && !ts.isMethodSignature(member)) continue;
+
+        const { description, defaultValue } = getJsDoc(member);
+        const type = ts.isPropertySignature(member)
+            ? member.type?.getText(source) ?? 'any'
+            : `(${member.parameters.map((parameter) => parameter.getText(source)).join(', ')}) => ${member.type?.getText(source) ?? 'void'}`;
+
+        props.push({
+            name: getPropertyName(member.name, source),
+            type,
+            required: !member.questionToken,
+            ...(defaultValue !== undefined ? { defaultValue } : {}),
+            ...(description ? { description } : {})
+        });
+    }
+
+    return props;
+}
+
+/**
+ * Find the Props declaration and destructuring defaults in script code.
+ */
+function readScriptProps(script: string): ComponentProp[] | null {
+    const source = ts.createSourceFile('props.ts', desugarStateDeclarations(script), ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const declarations: ComponentProp[][] = [];
+    const defaults = new Map<string, string>();
+
+    const visit = (node: ts.Node): void => {
+        if (ts.isInterfaceDeclaration(node) && node.name.text === 'Props') {
+            declarations.push(readMembers(node.members, source));
+        } else if (ts.isTypeAliasDeclaration(node) && node.name.text === 'Props' && ts.isTypeLiteralNode(node.type)) {
+            declarations.push(readMembers(node.type.members, source));
+        } else if (ts.isVariableDeclaration(node) && ts.isObjectBindingPattern(node.name)) {
+            const fromProps = (node.initializer && ts.isIdentifier(node.initializer) && node.initializer.text === 'props') ||
+                (node.type && ts.isTypeReferenceNode(node.type) && node.type.typeName.getText(source) === 'Props');
+
+            if (fromProps) {
+                for (const element of node.name.elements) {
+                    const name = element.propertyName ?? element.name;
+                    if (element.initializer && (ts.isIdentifier(name) || ts.isStringLiteral(name))) {
+                        defaults.set(name.text, element.initializer.getText(source));
+                    }
+                }
+            }
+        }
+
+        ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    if (declarations.length === 0) {
+        return null;
+    }
+
+    return declarations[0].map((prop) => {
+        const defaultValue = defaults.get(prop.name);
+        return defaultValue !== undefined ? { ...prop, defaultValue, required: false } : prop;
+    });
+}
+
+/**
+ * Names an expression binds for itself: parameters of arrow functions and
+ * function expressions, and locals declared in handler bodies.
+ */
+function collectExpressionBindings(code: string): Set<string> {
+    const bindings = new Set<string>();
+    const source = ts.createSourceFile('expression.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+
+    const addName = (name: ts.BindingName) => {
+        if (ts.isIdentifier(name)) {
+            bindings.add(name.text);
+            return;
+        }
+        for (const element of name.elements) {
+            if (!ts.isOmittedExpression(element)) addName(element.name);
+        }
+    };
+
+    const visit = (node: ts.Node) => {
+        if (ts.isParameter(node) || ts.isVariableDeclaration(node)) {
+            addName(node.name);
+        } else if ((ts.isFunctionExpression(node) || ts.isFunctionDeclaration(node)) && node.name) {
+            bindings.add(node.name.text);
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    return bindings;
+}
+
+/**
+ * Identifiers the template reads that the file does not declare.
+ */
+function inferTemplateProps(doc: ZenDocument): ComponentProp[] {
+    const symbols = collectScriptSymbols(doc);
+    const declared = new Set<string>([
+        ...symbols.states.keys(),
+        ...symbols.functions.map((func) => func.name),
+        ...symbols.imports.map((binding) => binding.name)
+    ]);
+
+    for (const block of doc.scripts) {
+        for (const match of block.content.matchAll(/\b(?:const|let|var|class)\s+([a-zA-Z_$][\w$]*)/g)) {
+            declared.add(match[1]);
+        }
+    }
+
+    for (const element of doc.elements) {
+        const loop = element.attributes.find((attribute) => attribute.name === 'zen:for');
+        const parsed = loop?.value ? parseForExpression(loop.value) : null;
+        if (parsed) {
+            declared.add(parsed.itemVar);
+            if (parsed.indexVar) declared.add(parsed.indexVar);
+        }
+    }
+
+    const props: ComponentProp[] = [];
+    const seen = new Set<string>();
+
+    for (const span of getTemplateCodeSpans(doc)) {
+        const code = span.element?.attributes.find((attribute) => attribute.valueStart === span.start)?.name === 'zen:for'
+            ? parseForExpression(span.code)?.source ?? ''
+            : span.code;
+
+        const local = collectExpressionBindings(code);
+        for (const reference of scanIdentifiers(code)) {
+            const name = reference.name;
+            if (seen.has(name) || declared.has(name) || local.has(name) || TEMPLATE_GLOBALS.has(name)) continue;
+            seen.add(name);
+            props.push({ name, type: 'any', required: false, inferred: true });
+        }
+    }
+
+    return props;
+}
+
+/**
+ * Extract the props of a component or layout from its source text.
+ */
+export function extractComponentProps(text: string): ComponentProp[] {
+    const doc = parseZenDocument(text);
+    const script = doc.scripts.map((block) => block.content).join('\n');
+
+    return (script.trim() ? readScriptProps(script) : null) ?? inferTemplateProps(doc);
+}
+
+/**
+ * One-line signature of a prop for completion details and hovers.
+ */
+export function formatPropSignature(prop: ComponentProp): string {
+    return `${prop.name}${prop.required ? '' : '?'}: ${prop.type}${prop.defaultValue !== undefined ? ` = ${prop.defaultValue}` : ''}`;
+}
+
+/**
+ * Markdown list of props for component hovers and completions.
+ */
+export function formatPropsMarkdown(props: ComponentProp[]): string {
+    if (props.length === 0) {
+        return 'none';
+    }
+
+    return '\n' + props
+        .map((prop) => `- \`${formatPropSignature(prop)}\`${prop.description ? ` — ${prop.description}` : ''}`)
+        .join('\n');
+}
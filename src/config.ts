@@ -0,0 +1,300 @@
+/**
+ * Zenith Config
+ *
+ * Reads zenith.config.* statically: JSON is parsed; TS/JS configs are
+ * parsed with the TypeScript compiler and their `export default` (or
+ * `module.exports`) object is evaluated from literals only. User code is
+ * never run, so values computed at runtime (`path.resolve(...)`) are
+ * ignored and their defaults apply.
+ *
+ * Recognized options (directories relative to the project root, except
+ * pages/layouts/components, which are relative to `srcDir`):
+ * - `srcDir`, `pagesDir`, `layoutsDir`, `componentsDir`
+ * - `alias` (or `aliases`): `{ '@components': './src/components' }`
+ * - `plugins`: plugin names, modules, or calls of imported plugin factories
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+
+export const ZENITH_CONFIG_CANDIDATES = [
+    'zenith.config.ts',
+    'zenith.config.js',
+    'zenith.config.mjs',
+    'zenith.config.cjs',
+    'zenith.config.json'
+];
+
+export interface ZenithConfig {
+    root: string;
+    /** The config file read, or null when the project has none. */
+    configPath: string | null;
+    srcDir: string;
+    pagesDir: string;
+    layoutsDir: string;
+    componentsDir: string;
+    /** Import alias -> absolute path. */
+    aliases: Record<string, string>;
+    /** Plugin ids (`content` for `zenith:content`), or null when the config lists none. */
+    plugins: string[] | null;
+}
+
+/** A call the evaluator cannot run, kept so plugin factories can be named. */
+interface ConfigCall {
+    callee: string;
+    module: string | null;
+}
+
+const configCache = new Map<string, { mtimeMs: number; config: ZenithConfig }>();
+
+function isConfigCall(value: unknown): value is ConfigCall {
+    return typeof value === 'object' && value !== null && 'callee' in value && 'module' in value;
+}
+
+/**
+ * Evaluate a config expression from literals, resolving identifiers to
+ * top-level constants. Anything else evaluates to undefined.
+ */
+function evaluateExpression(
+    node: ts.Expression,
+    constants: Map<string, ts.Expression>,
+    imports: Map<string, string>,
+    depth = 0
+): unknown {
+    if (depth > 20) return undefined;
+    const evaluate = (child: ts.Expression) => evaluateExpression(child, constants, imports, depth + 1);
+
+    if (
+        ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node) ||
+        ts.isNonNullExpression(node) || ts.isTypeAssertionExpression(node)
+    ) {
+        return evaluate(node.expression);
+    }
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+        return node.text;
+    }
+    if (ts.isNumericLiteral(node)) {
+        return Number(node.text);
+    }
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+
+    if (ts.isIdentifier(node)) {
+        const value = constants.get(node.text);
+        return value ? evaluate(value) : undefined;
+    }
+
+    if (ts.isArrayLiteralExpression(node)) {
+        return node.elements.filter((element) => !ts.isSpreadElement(element)).map(evaluate);
+    }
+
+    if (ts.isObjectLiteralExpression(node)) {
+        const result: Record<string, unknown> = {};
+        for (const property of node.properties) {
+            if (ts.isPropertyAssignment(property) && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) {
+                result[property.name.text] = evaluate(property.initializer);
+            } else if (ts.isShorthandPropertyAssignment(property)) {
+                result[property.name.text] = evaluate(property.name);
+            }
+        }
+        return result;
+    }
+
+    if (ts.isCallExpression(node)) {
+        const callee = ts.isIdentifier(node.expression) ? node.expression.text : null;
+        if (callee === 'defineConfig' && node.arguments[0]) {
+            return evaluate(node.arguments[0]);
+        }
+        if (callee) {
+            const call: ConfigCall = { callee, module: imports.get(callee) ?? null };
+            return call;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Statically evaluate the exported object of a TS/JS config.
+ */
+export function evaluateConfigSource(text: string, fileName = 'zenith.config.ts'): Record<string, unknown> {
+    const source = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const constants = new Map<string, ts.Expression>();
+    const imports = new Map<string, string>();
+    let exported: ts.Expression | undefined;
+
+    for (const statement of source.statements) {
+        if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+            const clause = statement.importClause;
+            const module = statement.moduleSpecifier.text;
+            if (clause?.name) imports.set(clause.name.text, module);
+            if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+                for (const element of clause.namedBindings.elements) imports.set(element.name.text, module);
+            }
+        } else if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue;
+
+                const initializer = declaration.initializer;
+                const required = ts.isCallExpression(initializer) && ts.isIdentifier(initializer.expression) &&
+                    initializer.expression.text === 'require' && initializer.arguments[0] && ts.isStringLiteral(initializer.arguments[0])
+                    ? initializer.arguments[0].text
+                    : null;
+                if (required) {
+                    imports.set(declaration.name.text, required);
+                } else {
+                    constants.set(declaration.name.text, initializer);
+                }
+            }
+        } else if (ts.isExportAssignment(statement)) {
+            exported = statement.expression;
+        } else if (
+            ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression) &&
+            statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+            statement.expression.left.getText(source) === 'module.exports'
+        ) {
+            exported = statement.expression.right;
+        }
+    }
+
+    const value = exported ? evaluateExpression(exported, constants, imports) : undefined;
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !isConfigCall(value)
+        ? value as Record<string, unknown>
+        : {};
+}
+
+/**
+ * Plugin id of a config entry or module: `zenith:content`,
+ * `@zenithbuild/plugin-content` and `content` are all `content`.
+ */
+export function getPluginId(name: string): string {
+    return name
+        .replace(/^zenith:/, '')
+        .replace(/^@zenithbuild\/(?:plugin-)?/, '')
+        .replace(/^zenith-plugin-/, '');
+}
+
+function findConfigFile(root: string): string | null {
+    for (const candidate of ZENITH_CONFIG_CANDIDATES) {
+        const configPath = path.join(root, candidate);
+        if (fs.existsSync(configPath)) {
+            return configPath;
+        }
+    }
+    return null;
+}
+
+function readConfigOptions(configPath: string): Record<string, unknown> {
+    try {
+        const text = fs.readFileSync(configPath, 'utf-8');
+        if (configPath.endsWith('.json')) {
+            const parsed = JSON.parse(text) as unknown;
+            return typeof parsed === 'object' && parsed !== null ? parsed as Record<string, unknown> : {};
+        }
+        return evaluateConfigSource(text, path.basename(configPath));
+    } catch {
+        return {};
+    }
+}
+
+function buildConfig(root: string, configPath: string | null, options: Record<string, unknown>): ZenithConfig {
+    const option = (key: string) => (typeof options[key] === 'string' && options[key] ? options[key] as string : null);
+
+    const configuredSrc = option('srcDir');
+    const srcDir = configuredSrc
+        ? path.resolve(root, configuredSrc)
+        : fs.existsSync(path.join(root, 'src')) ? path.join(root, 'src') : path.join(root, 'app');
+
+    const aliases: Record<string, string> = {};
+    const aliasOption = options.alias ?? options.aliases;
+    if (typeof aliasOption === 'object' && aliasOption !== null && !Array.isArray(aliasOption)) {
+        for (const [alias, target] of Object.entries(aliasOption)) {
+            if (typeof target === 'string') {
+                aliases[alias] = path.resolve(root, target);
+            }
+        }
+    }
+
+    const plugins = Array.isArray(options.plugins)
+        ? options.plugins.flatMap((entry) => {
+            if (typeof entry === 'string') return [getPluginId(entry)];
+            if (isConfigCall(entry)) return [getPluginId(entry.module ?? entry.callee)];
+            return [];
+        })
+        : null;
+
+    return {
+        root,
+        configPath,
+        srcDir,
+        pagesDir: path.resolve(srcDir, option('pagesDir') ?? 'pages'),
+        layoutsDir: path.resolve(srcDir, option('layoutsDir') ?? 'layouts'),
+        componentsDir: path.resolve(srcDir, option('componentsDir') ?? 'components'),
+        aliases,
+        plugins
+    };
+}
+
+/**
+ * Read the config of a project root, falling back to the default layout
+ * (src/ or app/ with pages, layouts and components). Cached until the
+ * config file changes.
+ */
+export function readZenithConfig(root: string): ZenithConfig {
+    const configPath = findConfigFile(root);
+    if (!configPath) {
+        return buildConfig(root, null, {});
+    }
+
+    const mtimeMs = fs.statSync(configPath).mtimeMs;
+    const cached = configCache.get(configPath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.config;
+    }
+
+    const config = buildConfig(root, configPath, readConfigOptions(configPath));
+    configCache.set(configPath, { mtimeMs, config });
+    return config;
+}
+
+/**
+ * The config of the nearest directory above a file that has a
+ * zenith.config.*, or null when there is none.
+ */
+export function getZenithConfigFor(filePath: string): ZenithConfig | null {
+    let dir = path.dirname(path.resolve(filePath));
+    while (true) {
+        if (findConfigFile(dir)) {
+            return readZenithConfig(dir);
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/**
+ * Resolve an aliased import specifier to an absolute path, using the
+ * longest matching alias.
+ */
+export function resolveConfigAlias(config: ZenithConfig, specifier: string): string | null {
+    const alias = Object.keys(config.aliases)
+        .filter((candidate) => specifier === candidate || specifier.startsWith(`${candidate.replace(/\/$/, '')}/`))
+        .sort((a, b) => b.length - a.length)[0];
+
+    if (alias === undefined) {
+        return null;
+    }
+
+    return path.join(config.aliases[alias], specifier.slice(alias.replace(/\/$/, '').length));
+}
+
+/**
+ * Whether a path lies inside a directory.
+ */
+export function isInsideDir(filePath: string, dir: string): boolean {
+    const relative = path.relative(dir, filePath);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
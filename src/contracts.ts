@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 
+import { getZenithConfigFor, isInsideDir } from './config';
+
 export type ZenithFileKind = 'page' | 'layout' | 'component' | 'unknown';
 
 export function stripImportSuffix(specifier: string): string {
@@ -81,6 +83,10 @@ export function resolveCssImportPath(
     };
 }
 
+/**
+ * Classify a .zen file by the pages/layouts directories its project's
+ * zenith.config.* configures, or by the default src/ and app/ layout.
+ */
 export function classifyZenithFile(filePath: string): ZenithFileKind {
     const normalized = filePath.replace(/\\/g, '/');
 
@@ -88,6 +94,13 @@ export function classifyZenithFile(filePath: string): ZenithFileKind {
         return 'unknown';
     }
 
+    const config = getZenithConfigFor(filePath);
+    if (config) {
+        if (isInsideDir(filePath, config.pagesDir)) return 'page';
+        if (isInsideDir(filePath, config.layoutsDir)) return 'layout';
+        return 'component';
+    }
+
     if (normalized.includes('/src/pages/') || normalized.includes('/app/pages/')) {
         return 'page';
     }
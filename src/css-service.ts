@@ -0,0 +1,167 @@
+/**
+ * Embedded CSS Service
+ *
+ * Runs the CSS language service over the <style> blocks of a .zen file.
+ * The virtual stylesheet is the document text with everything outside
+ * <style> content blanked to spaces, so positions are shared with the
+ * .zen document and need no mapping. `lang="scss"` and `lang="less"`
+ * blocks use the matching service.
+ */
+
+import {
+    getCSSLanguageService,
+    getLESSLanguageService,
+    getSCSSLanguageService,
+    type Color,
+    type ColorInformation,
+    type ColorPresentation,
+    type CompletionList,
+    type Hover,
+    type LanguageService,
+    type Range
+} from 'vscode-css-languageservice';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { getParsedDocument, findRawBlockAt, type ZenRawBlock } from './parser';
+import type { ZenithDiagnostic, ZenithTextDocumentLike } from './diagnostics';
+import { DiagnosticSeverity } from './protocol';
+
+type StyleLanguage = 'css' | 'scss' | 'less';
+
+const services = new Map<StyleLanguage, LanguageService>();
+
+function getService(language: StyleLanguage): LanguageService {
+    let service = services.get(language);
+    if (!service) {
+        service = language === 'scss'
+            ? getSCSSLanguageService()
+            : language === 'less'
+                ? getLESSLanguageService()
+                : getCSSLanguageService();
+        services.set(language, service);
+    }
+    return service;
+}
+
+function getStyleLanguage(block: ZenRawBlock): StyleLanguage {
+    const lang = block.attributes.find((attribute) => attribute.name === 'lang')?.value?.trim().toLowerCase();
+    return lang === 'scss' || lang === 'less' ? lang : 'css';
+}
+
+/**
+ * Blank everything but the content of the given style blocks, keeping
+ * line breaks so line/character positions are unchanged.
+ */
+export function createStyleText(text: string, blocks: ZenRawBlock[]): string {
+    let result = text.replace(/[^\r\n]/g, ' ');
+    for (const block of blocks) {
+        result = result.slice(0, block.contentStart) + block.content + result.slice(block.contentEnd);
+    }
+    return result;
+}
+
+function getStyleDocument(document: ZenithTextDocumentLike, blocks: ZenRawBlock[], language: StyleLanguage): TextDocument {
+    return TextDocument.create(`${document.uri}.${language}`, language, 0, createStyleText(document.getText(), blocks));
+}
+
+function getStyleBlocksAt(document: ZenithTextDocumentLike, offset: number): { blocks: ZenRawBlock[]; language: StyleLanguage } | null {
+    const doc = getParsedDocument(document.uri, document.getText());
+    const block = findRawBlockAt(doc, offset);
+    if (!block || block.type !== 'style') {
+        return null;
+    }
+
+    const language = getStyleLanguage(block);
+    return { blocks: doc.styles.filter((style) => getStyleLanguage(style) === language), language };
+}
+
+/**
+ * CSS completions inside a <style> block, or null elsewhere.
+ */
+export function getStyleCompletions(document: ZenithTextDocumentLike, offset: number): CompletionList | null {
+    const target = getStyleBlocksAt(document, offset);
+    if (!target) return null;
+
+    const service = getService(target.language);
+    const styleDocument = getStyleDocument(document, target.blocks, target.language);
+    return service.doComplete(styleDocument, styleDocument.positionAt(offset), service.parseStylesheet(styleDocument));
+}
+
+/**
+ * CSS hover inside a <style> block.
+ */
+export function getStyleHover(document: ZenithTextDocumentLike, offset: number): Hover | null {
+    const target = getStyleBlocksAt(document, offset);
+    if (!target) return null;
+
+    const service = getService(target.language);
+    const styleDocument = getStyleDocument(document, target.blocks, target.language);
+    return service.doHover(styleDocument, styleDocument.positionAt(offset), service.parseStylesheet(styleDocument));
+}
+
+function forEachStyleLanguage(document: ZenithTextDocumentLike, visit: (service: LanguageService, styleDocument: TextDocument) => void): void {
+    const doc = getParsedDocument(document.uri, document.getText());
+    const byLanguage = new Map<StyleLanguage, ZenRawBlock[]>();
+
+    for (const block of doc.styles) {
+        const language = getStyleLanguage(block);
+        byLanguage.set(language, [...(byLanguage.get(language) ?? []), block]);
+    }
+
+    for (const [language, blocks] of byLanguage) {
+        visit(getService(language), getStyleDocument(document, blocks, language));
+    }
+}
+
+/**
+ * Color literals in every <style> block.
+ */
+export function getStyleColors(document: ZenithTextDocumentLike): ColorInformation[] {
+    const colors: ColorInformation[] = [];
+    forEachStyleLanguage(document, (service, styleDocument) => {
+        colors.push(...service.findDocumentColors(styleDocument, service.parseStylesheet(styleDocument)));
+    });
+    return colors;
+}
+
+/**
+ * Alternative notations for a color picked in the editor.
+ */
+export function getStyleColorPresentations(
+    document: ZenithTextDocumentLike,
+    offset: number,
+    color: Color,
+    range: Range
+): ColorPresentation[] {
+    const target = getStyleBlocksAt(document, offset);
+    if (!target) return [];
+
+    const service = getService(target.language);
+    const styleDocument = getStyleDocument(document, target.blocks, target.language);
+    return service.getColorPresentations(styleDocument, service.parseStylesheet(styleDocument), color, range);
+}
+
+/**
+ * Syntax errors in <style> blocks. Lint rules (unknown properties, empty
+ * rules, unknown at-rules such as `@tailwind`) are not reported.
+ */
+export function collectStyleDiagnostics(document: ZenithTextDocumentLike): ZenithDiagnostic[] {
+    const diagnostics: ZenithDiagnostic[] = [];
+
+    forEachStyleLanguage(document, (service, styleDocument) => {
+        for (const diagnostic of service.doValidation(styleDocument, service.parseStylesheet(styleDocument))) {
+            const code = String(diagnostic.code ?? '');
+            if (!code.startsWith('css-')) continue;
+
+            diagnostics.push({
+                severity: diagnostic.severity ?? DiagnosticSeverity.Error,
+                range: diagnostic.range,
+                message: diagnostic.message,
+                source: 'zenith-css',
+                code
+            });
+        }
+    });
+
+    return diagnostics;
+}
@@ -0,0 +1,215 @@
+/**
+ * Go to Definition
+ *
+ * Resolves symbols in a .zen document to their declarations:
+ * - component/layout tags -> the .zen file in the project graph
+ * - template identifiers -> `state`, function or import declarations in <script>
+ * - loop variables -> the zen:for directive that declares them
+ * - import specifiers -> the module file they resolve to
+ */
+
+import { parseForExpression } from './metadata/directive-metadata';
+import { parseZenithImports } from './imports';
+import { resolveImport } from './module-resolution';
+import { getComponentImports, resolveComponent, type ProjectGraph } from './project';
+import {
+    getParsedDocument,
+    findNodeAt,
+    findRawBlockAt,
+    findExpressionAt,
+    isExpressionAttribute,
+    type ZenAttribute,
+    type ZenDocument,
+    type ZenElement
+} from './parser';
+import { collectScriptSymbols } from './script-symbols';
+import { filePathToUri, uriToFilePath } from './uri';
+import type { ZenithRange, ZenithTextDocumentLike } from './diagnostics';
+
+export interface ZenithLocation {
+    uri: string;
+    range: ZenithRange;
+}
+
+export interface IdentifierAtOffset {
+    name: string;
+    start: number;
+    end: number;
+}
+
+const FILE_START_RANGE: ZenithRange = {
+    start: { line: 0, character: 0 },
+    end: { line: 0, character: 0 }
+};
+
+/**
+ * Get the identifier under the cursor, or null when the cursor is on a
+ * property access (`user.name` resolves nothing for `name`).
+ */
+export function getIdentifierAt(text: string, offset: number): IdentifierAtOffset | null {
+    let start = offset;
+    let end = offset;
+
+    while (start > 0 && /[\w$]/.test(text[start - 1])) start--;
+    while (end < text.length && /[\w$]/.test(text[end])) end++;
+
+    if (start === end || !/^[a-zA-Z_$]/.test(text[start])) {
+        return null;
+    }
+
+    let before = start - 1;
+    while (before >= 0 && (text[before] === ' ' || text[before] === '\t')) before--;
+    if (before >= 0 && text[before] === '.' && text[before - 1] !== '.') {
+        return null;
+    }
+
+    return { name: text.slice(start, end), start, end };
+}
+
+/**
+ * Check whether an offset is inside template code: a `{...}` expression
+ * or the value of a directive, event handler or binding attribute.
+ */
+export function isTemplateExpressionOffset(doc: ZenDocument, offset: number): boolean {
+    if (findRawBlockAt(doc, offset)) {
+        return false;
+    }
+
+    if (findExpressionAt(doc, offset)) {
+        return true;
+    }
+
+    const at = findNodeAt(doc, offset);
+    return !!at.attribute && at.inAttributeValue && isExpressionAttribute(at.attribute);
+}
+
+export interface LoopVariableDeclaration {
+    element: ZenElement;
+    attribute: ZenAttribute;
+    name: string;
+    offset: number;
+}
+
+/**
+ * Find the zen:for declaration of a loop variable visible at an offset,
+ * searching from the innermost element outwards.
+ */
+export function findLoopVariable(doc: ZenDocument, offset: number, name: string): LoopVariableDeclaration | null {
+    let element = findNodeAt(doc, offset).element;
+
+    while (element) {
+        const attribute = element.attributes.find((attr) => attr.name === 'zen:for');
+        const parsed = attribute?.value ? parseForExpression(attribute.value) : null;
+
+        if (attribute && parsed) {
+            // The loop source is evaluated outside the loop scope.
+            const inOwnSource = offset >= attribute.valueStart + parsed.sourceOffset && offset <= attribute.valueEnd;
+
+            if (!inOwnSource) {
+                if (parsed.itemVar === name) {
+                    return { element, attribute, name, offset: attribute.valueStart + parsed.itemOffset };
+                }
+                if (parsed.indexVar === name && parsed.indexOffset !== undefined) {
+                    return { element, attribute, name, offset: attribute.valueStart + parsed.indexOffset };
+                }
+            }
+        }
+
+        element = element.parent;
+    }
+
+    return null;
+}
+
+/**
+ * Find the element whose start or end tag name contains the offset.
+ */
+export function findTagNameAt(doc: ZenDocument, offset: number): { element: ZenElement; start: number; end: number } | null {
+    for (const element of doc.elements) {
+        if (offset >= element.tagNameStart && offset <= element.tagNameEnd) {
+            return { element, start: element.tagNameStart, end: element.tagNameEnd };
+        }
+        if (element.endTagNameStart !== null) {
+            const end = element.endTagNameStart + element.tagName.length;
+            if (offset >= element.endTagNameStart && offset <= end) {
+                return { element, start: element.endTagNameStart, end };
+            }
+        }
+    }
+    return null;
+}
+
+function toLocation(document: ZenithTextDocumentLike, start: number, end: number): ZenithLocation {
+    return {
+        uri: document.uri,
+        range: { start: document.positionAt(start), end: document.positionAt(end) }
+    };
+}
+
+/**
+ * Find the definition of the symbol at an offset.
+ */
+export function findDefinition(
+    document: ZenithTextDocumentLike,
+    offset: number,
+    graph: ProjectGraph | null
+): ZenithLocation[] {
+    const text = document.getText();
+    const doc = getParsedDocument(document.uri, text);
+
+    // Component and layout tags
+    const tag = findTagNameAt(doc, offset);
+    if (tag) {
+        if (!tag.element.isComponent || !graph) return [];
+        const component = resolveComponent(graph, tag.element.tagName, getComponentImports(doc, uriToFilePath(document.uri)));
+        return component ? [{ uri: filePathToUri(component.filePath), range: FILE_START_RANGE }] : [];
+    }
+
+    const block = findRawBlockAt(doc, offset);
+    const inScript = block?.type === 'script';
+    if (!inScript && !isTemplateExpressionOffset(doc, offset)) {
+        return [];
+    }
+
+    // Import specifiers
+    if (block && inScript) {
+        const local = offset - block.contentStart;
+        const imp = parseZenithImports(block.content).find((candidate) => local >= candidate.moduleStart && local <= candidate.moduleEnd);
+        if (imp) {
+            const resolved = resolveImport(imp.module, uriToFilePath(document.uri), graph?.root);
+            return resolved?.filePath ? [{ uri: filePathToUri(resolved.filePath), range: FILE_START_RANGE }] : [];
+        }
+    }
+
+    const identifier = getIdentifierAt(text, offset);
+    if (!identifier) {
+        return [];
+    }
+
+    // Loop variables shadow script bindings inside their element.
+    if (!inScript) {
+        const loopVar = findLoopVariable(doc, offset, identifier.name);
+        if (loopVar) {
+            return [toLocation(document, loopVar.offset, loopVar.offset + loopVar.name.length)];
+        }
+    }
+
+    const symbols = collectScriptSymbols(doc);
+
+    const state = symbols.states.get(identifier.name);
+    if (state) {
+        return [toLocation(document, state.offset, state.offset + state.name.length)];
+    }
+
+    const func = symbols.functions.find((f) => f.name === identifier.name);
+    if (func) {
+        return [toLocation(document, func.offset, func.offset + func.name.length)];
+    }
+
+    const binding = symbols.imports.find((imp) => imp.name === identifier.name);
+    if (binding) {
+        return [toLocation(document, binding.offset, binding.offset + binding.name.length)];
+    }
+
+    return [];
+}
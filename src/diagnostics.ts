@@ -8,8 +8,17 @@
 import * as path from 'path';
 
 import { parseForExpression } from './metadata/directive-metadata';
+import { getPluginId, readZenithConfig, type ZenithConfig } from './config';
+import { getParsedDocument, type ZenAttribute, type ZenDocument, type ZenElement, type ZenRawBlock } from './parser';
 import { parseZenithImports, resolveModule, isPluginModule } from './imports';
-import type { ProjectGraph } from './project';
+import { findComponentsByBaseName, getComponentImports, resolveComponent, type ComponentInfo, type ProjectGraph } from './project';
+import { findClosestMatch } from './suggestions';
+import { collectRouteReferences, isInternalRoutePath, matchRoute, suggestRoutes } from './routes';
+import { collectRouteParamDiagnostics } from './route-params';
+import { collectRouterHookDiagnostics } from './router-hooks';
+import { collectMissingImportDiagnostics } from './auto-import';
+import { collectUnusedSymbolDiagnostics } from './unused-symbols';
+import { collectUnresolvedImportDiagnostics } from './module-resolution';
 import {
     classifyZenithFile,
     isCssContractImportSpecifier,
@@ -17,7 +26,21 @@ import {
     resolveCssImportPath
 } from './contracts';
 import type { ZenithServerSettings } from './settings';
-import { EVENT_BINDING_DIAGNOSTIC_CODE } from './code-actions';
+import { uriToFilePath } from './uri';
+import { DiagnosticSeverity } from './protocol';
+import {
+    AMBIGUOUS_COMPONENT_DIAGNOSTIC_CODE,
+    EVENT_BINDING_DIAGNOSTIC_CODE,
+    MISSING_PROP_DIAGNOSTIC_CODE,
+    PROP_TYPE_DIAGNOSTIC_CODE,
+    SHORT_COMPONENT_NAME_DIAGNOSTIC_CODE,
+    UNKNOWN_PROP_DIAGNOSTIC_CODE,
+    UNKNOWN_ROUTE_DIAGNOSTIC_CODE,
+    type AmbiguousComponentCodeActionData,
+    type RouteCodeActionData
+} from './code-actions';
+import { collectTypeDiagnostics } from './typescript-service';
+import { collectStyleDiagnostics } from './css-service';
 
 const COMPONENT_SCRIPT_CONTRACT_MESSAGE =
     'Zenith Contract Violation: Components are structural; move <script> to the parent route scope.';
@@ -28,13 +51,6 @@ const CSS_BARE_IMPORT_MESSAGE =
 const CSS_ESCAPE_MESSAGE =
     'CSS import contract violation: imported CSS path escapes project root.';
 
-const DiagnosticSeverity = {
-    Error: 1,
-    Warning: 2,
-    Information: 3,
-    Hint: 4
-} as const;
-
 export interface ZenithPosition {
     line: number;
     character: number;
@@ -51,6 +67,8 @@ export interface ZenithDiagnostic {
     message: string;
     source: string;
     code?: string;
+    /** LSP diagnostic tags (1 = Unnecessary, 2 = Deprecated). */
+    tags?: number[];
     data?: unknown;
 }
 
@@ -60,39 +78,6 @@ export interface ZenithTextDocumentLike {
     positionAt(offset: number): ZenithPosition;
 }
 
-function uriToFilePath(uri: string): string {
-    try {
-        return decodeURIComponent(new URL(uri).pathname);
-    } catch {
-        return decodeURIComponent(uri.replace('file://', ''));
-    }
-}
-
-function stripScriptAndStylePreserveIndices(text: string): string {
-    return text.replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, (match) => ' '.repeat(match.length));
-}
-
-interface ScriptBlock {
-    content: string;
-    contentStartOffset: number;
-}
-
-function getScriptBlocks(text: string): ScriptBlock[] {
-    const blocks: ScriptBlock[] = [];
-    const scriptPattern = /<script\b[^>]*>([\s\S]*?)<\/script>/gi;
-    let match: RegExpExecArray | null;
-
-    while ((match = scriptPattern.exec(text)) !== null) {
-        const whole = match[0] || '';
-        const content = match[1] || '';
-        const localStart = whole.indexOf(content);
-        const contentStartOffset = (match.index || 0) + Math.max(localStart, 0);
-        blocks.push({ content, contentStartOffset });
-    }
-
-    return blocks;
-}
-
 interface ParsedImportSpecifier {
     specifier: string;
     startOffset: number;
@@ -213,6 +198,12 @@ export async function collectDiagnostics(
         )
     );
 
+    // 3) Type errors in script code and template expressions from the embedded TypeScript service.
+    diagnostics.push(...collectTypeDiagnostics(document));
+
+    // 4) Syntax errors in <style> blocks from the embedded CSS service.
+    diagnostics.push(...collectStyleDiagnostics(document));
+
     return diagnostics;
 }
 
@@ -224,23 +215,31 @@ export function collectContractDiagnostics(
     hasComponentScriptCompilerDiagnostic = false
 ): ZenithDiagnostic[] {
     const diagnostics: ZenithDiagnostic[] = [];
-    const text = document.getText();
+    const doc = getParsedDocument(document.uri, document.getText());
     const filePath = uriToFilePath(document.uri);
 
-    collectComponentScriptDiagnostics(document, text, filePath, settings, diagnostics, hasComponentScriptCompilerDiagnostic);
-    collectEventBindingDiagnostics(document, text, diagnostics);
-    collectDirectiveDiagnostics(document, text, diagnostics);
-    collectImportDiagnostics(document, text, diagnostics);
-    collectCssImportContractDiagnostics(document, text, filePath, projectRoot, diagnostics);
-    collectExpressionDiagnostics(document, text, diagnostics);
-    collectComponentDiagnostics(document, text, graph, diagnostics);
+    collectComponentScriptDiagnostics(document, doc, filePath, settings, diagnostics, hasComponentScriptCompilerDiagnostic);
+    collectEventBindingDiagnostics(document, doc, diagnostics);
+    collectDirectiveDiagnostics(document, doc, diagnostics);
+    collectImportDiagnostics(document, doc, projectRoot ? readZenithConfig(projectRoot) : null, diagnostics);
+    collectCssImportContractDiagnostics(document, doc, filePath, projectRoot, diagnostics);
+    if (document.uri.startsWith('file://')) {
+        diagnostics.push(...collectUnresolvedImportDiagnostics(document, doc, filePath, projectRoot));
+    }
+    collectExpressionDiagnostics(document, doc, diagnostics);
+    collectComponentDiagnostics(document, doc, graph, diagnostics);
+    collectRouteDiagnostics(document, doc, graph, diagnostics);
+    diagnostics.push(...collectRouteParamDiagnostics(document, doc));
+    diagnostics.push(...collectRouterHookDiagnostics(document, doc));
+    diagnostics.push(...collectMissingImportDiagnostics(document, doc));
+    diagnostics.push(...collectUnusedSymbolDiagnostics(document, doc));
 
     return diagnostics;
 }
 
 function collectComponentScriptDiagnostics(
     document: ZenithTextDocumentLike,
-    text: string,
+    doc: ZenDocument,
     filePath: string,
     settings: ZenithServerSettings,
     diagnostics: ZenithDiagnostic[],
@@ -258,98 +257,84 @@ function collectComponentScriptDiagnostics(
         return;
     }
 
-    const scriptTagMatch = /<script\b[^>]*>/i.exec(text);
-    if (!scriptTagMatch || scriptTagMatch.index == null) {
+    const script = doc.scripts[0];
+    if (!script) {
         return;
     }
 
     diagnostics.push({
         severity: DiagnosticSeverity.Error,
         range: {
-            start: document.positionAt(scriptTagMatch.index),
-            end: document.positionAt(scriptTagMatch.index + scriptTagMatch[0].length)
+            start: document.positionAt(script.start),
+            end: document.positionAt(script.startTagEnd)
         },
         message: COMPONENT_SCRIPT_CONTRACT_MESSAGE,
         source: 'zenith-contract'
     });
 }
 
+function getRawAttributeValue(doc: ZenDocument, attribute: ZenAttribute): string {
+    if (attribute.valueStart < 0) {
+        return '';
+    }
+    return doc.text.slice(attribute.valueStart - (attribute.quote ? 1 : 0), attribute.end);
+}
+
 function collectEventBindingDiagnostics(
     document: ZenithTextDocumentLike,
-    text: string,
+    doc: ZenDocument,
     diagnostics: ZenithDiagnostic[]
 ): void {
-    const stripped = stripScriptAndStylePreserveIndices(text);
-
-    // Invalid @click={handler}
-    const atEventPattern = /@([a-zA-Z][a-zA-Z0-9_-]*)\s*=\s*(\{[^}]*\}|"[^"]*"|'[^']*')/g;
-    let match: RegExpExecArray | null;
-
-    while ((match = atEventPattern.exec(stripped)) !== null) {
-        const fullMatch = match[0] || '';
-        const eventName = match[1] || 'click';
-        const rawHandler = match[2] || '{handler}';
-        const handler = normalizeEventHandlerValue(rawHandler);
-        const replacement = `on:${eventName}={${handler}}`;
+    for (const element of doc.elements) {
+        for (const attribute of element.attributes) {
+            if (attribute.valueStart < 0) {
+                continue;
+            }
 
-        diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: {
-                start: document.positionAt(match.index || 0),
-                end: document.positionAt((match.index || 0) + fullMatch.length)
-            },
-            message: `Invalid event binding syntax. Use on:${eventName}={handler}.`,
-            source: 'zenith-contract',
-            code: EVENT_BINDING_DIAGNOSTIC_CODE,
-            data: {
-                replacement,
-                title: `Convert to ${replacement}`
+            // Invalid @click={handler} and onclick="handler" / onclick={handler}
+            const invalidMatch = /^(?:@|on)([a-zA-Z][a-zA-Z0-9_-]*)$/.exec(attribute.name);
+            if (!invalidMatch) {
+                continue;
             }
-        });
-    }
 
-    // Invalid onclick="handler" / onclick={handler}
-    const onEventPattern = /\bon([a-zA-Z][a-zA-Z0-9_-]*)\s*=\s*(\{[^}]*\}|"[^"]*"|'[^']*')/g;
-    while ((match = onEventPattern.exec(stripped)) !== null) {
-        const fullMatch = match[0] || '';
-        const eventName = match[1] || 'click';
-        const rawHandler = match[2] || '{handler}';
-        const handler = normalizeEventHandlerValue(rawHandler);
-        const replacement = `on:${eventName}={${handler}}`;
+            const eventName = invalidMatch[1] || 'click';
+            const rawHandler = getRawAttributeValue(doc, attribute) || '{handler}';
+            const handler = normalizeEventHandlerValue(rawHandler);
+            const replacement = `on:${eventName}={${handler}}`;
 
-        diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: {
-                start: document.positionAt(match.index || 0),
-                end: document.positionAt((match.index || 0) + fullMatch.length)
-            },
-            message: `Invalid event binding syntax. Use on:${eventName}={handler}.`,
-            source: 'zenith-contract',
-            code: EVENT_BINDING_DIAGNOSTIC_CODE,
-            data: {
-                replacement,
-                title: `Convert to ${replacement}`
-            }
-        });
+            diagnostics.push({
+                severity: DiagnosticSeverity.Error,
+                range: {
+                    start: document.positionAt(attribute.start),
+                    end: document.positionAt(attribute.end)
+                },
+                message: `Invalid event binding syntax. Use on:${eventName}={handler}.`,
+                source: 'zenith-contract',
+                code: EVENT_BINDING_DIAGNOSTIC_CODE,
+                data: {
+                    replacement,
+                    title: `Convert to ${replacement}`
+                }
+            });
+        }
     }
 }
 
 function collectCssImportContractDiagnostics(
     document: ZenithTextDocumentLike,
-    text: string,
+    doc: ZenDocument,
     filePath: string,
     projectRoot: string | null,
     diagnostics: ZenithDiagnostic[]
 ): void {
-    const scriptBlocks = getScriptBlocks(text);
-    if (scriptBlocks.length === 0) {
+    if (doc.scripts.length === 0) {
         return;
     }
 
     const effectiveProjectRoot = projectRoot ? path.resolve(projectRoot) : path.dirname(filePath);
 
-    for (const block of scriptBlocks) {
-        const imports = parseImportSpecifiers(block.content, block.contentStartOffset);
+    for (const block of doc.scripts) {
+        const imports = parseImportSpecifiers(block.content, block.contentStart);
         for (const imp of imports) {
             if (!isCssContractImportSpecifier(imp.specifier)) {
                 continue;
@@ -389,117 +374,298 @@ function collectCssImportContractDiagnostics(
  */
 function collectComponentDiagnostics(
     document: ZenithTextDocumentLike,
-    text: string,
+    doc: ZenDocument,
     graph: ProjectGraph | null,
     diagnostics: ZenithDiagnostic[]
 ): void {
     if (!graph) return;
 
-    const strippedText = text
-        .replace(/<(script|style)[^>]*>([\s\S]*?)<\/\1>/gi, (match, _tag, content) => {
-            return match.replace(content, ' '.repeat(content.length));
-        });
+    const componentImports = getComponentImports(doc, uriToFilePath(document.uri));
 
-    const componentPattern = /<([A-Z][a-zA-Z0-9]*)(?=[\s/>])/g;
-    let match: RegExpExecArray | null;
+    for (const element of doc.elements) {
+        if (!element.isComponent) continue;
 
-    while ((match = componentPattern.exec(strippedText)) !== null) {
-        const componentName = match[1];
+        const componentName = element.tagName;
         if (componentName === 'ZenLink') continue;
 
-        const inLayouts = graph.layouts.has(componentName);
-        const inComponents = graph.components.has(componentName);
+        const component = resolveComponent(graph, componentName, componentImports);
+        if (component) {
+            collectPropDiagnostics(document, element, component, diagnostics);
+            continue;
+        }
 
-        if (!inLayouts && !inComponents) {
-            const startPos = document.positionAt((match.index || 0) + 1);
-            const endPos = document.positionAt((match.index || 0) + 1 + componentName.length);
+        const range = {
+            start: document.positionAt(element.tagNameStart),
+            end: document.positionAt(element.tagNameEnd)
+        };
+
+        // The short name of one or more nested components: point at the
+        // qualified names.
+        const candidates = findComponentsByBaseName(graph, componentName);
+        if (candidates.length > 0) {
+            const data: AmbiguousComponentCodeActionData = {
+                fixes: candidates.map((candidate) => ({
+                    title: `Use <${candidate.name}>`,
+                    edits: getTagNameRanges(element).map((tagRange) => ({
+                        range: { start: document.positionAt(tagRange.start), end: document.positionAt(tagRange.end) },
+                        newText: candidate.name
+                    }))
+                }))
+            };
 
             diagnostics.push({
                 severity: DiagnosticSeverity.Warning,
-                range: { start: startPos, end: endPos },
-                message: `Unknown component: '<${componentName}>'. Ensure it exists in src/layouts/ or src/components/`,
-                source: 'zenith'
+                range,
+                message: candidates.length > 1
+                    ? `Ambiguous component '<${componentName}>': matches ${candidates.map((candidate) => `'${candidate.name}'`).join(', ')}. Use the qualified name or import the file explicitly.`
+                    : `Component '<${componentName}>' is registered as '<${candidates[0].name}>'. Use the qualified name or import the file explicitly.`,
+                source: 'zenith',
+                code: candidates.length > 1 ? AMBIGUOUS_COMPONENT_DIAGNOSTIC_CODE : SHORT_COMPONENT_NAME_DIAGNOSTIC_CODE,
+                data
             });
+            continue;
         }
+
+        const config = readZenithConfig(graph.root);
+        const dirs = [config.layoutsDir, config.componentsDir]
+            .map((dir) => `${path.relative(graph.root, dir).replace(/\\/g, '/')}/`);
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range,
+            message: `Unknown component: '<${componentName}>'. Ensure it exists in ${dirs[0]} or ${dirs[1]}`,
+            source: 'zenith'
+        });
+    }
+}
+
+function getTagNameRanges(element: ZenElement): Array<{ start: number; end: number }> {
+    const ranges = [{ start: element.tagNameStart, end: element.tagNameEnd }];
+    if (element.endTagNameStart !== null) {
+        ranges.push({ start: element.endTagNameStart, end: element.endTagNameStart + element.tagName.length });
     }
+    return ranges;
 }
 
 /**
- * Validate directive usage.
+ * Internal links (`<ZenLink to>`, navigate()/prefetch() arguments) that no
+ * page route matches.
  */
-function collectDirectiveDiagnostics(
+function collectRouteDiagnostics(
     document: ZenithTextDocumentLike,
-    text: string,
+    doc: ZenDocument,
+    graph: ProjectGraph | null,
     diagnostics: ZenithDiagnostic[]
 ): void {
-    const directivePattern = /(zen:(?:if|for|effect|show))\s*=\s*["']([^"']*)["']/g;
-    let match: RegExpExecArray | null;
+    if (!graph || graph.routes.length === 0) return;
 
-    while ((match = directivePattern.exec(text)) !== null) {
-        const directiveName = match[1];
-        const directiveValue = match[2];
+    for (const reference of collectRouteReferences(doc)) {
+        if (!isInternalRoutePath(reference.path) || matchRoute(graph.routes, reference.path)) continue;
 
-        if (directiveName === 'zen:for') {
-            const parsed = parseForExpression(directiveValue);
-            if (!parsed) {
-                const startPos = document.positionAt(match.index || 0);
-                const endPos = document.positionAt((match.index || 0) + (match[0] || '').length);
+        const urlPath = reference.path.replace(/[?#].*$/, '');
+        const suggestions = suggestRoutes(graph.routes, urlPath);
+        const data: RouteCodeActionData = { suggestions };
 
-                diagnostics.push({
-                    severity: DiagnosticSeverity.Error,
-                    range: { start: startPos, end: endPos },
-                    message: 'Invalid zen:for syntax. Expected: "item in items" or "item, index in items"',
-                    source: 'zenith'
-                });
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: {
+                start: document.positionAt(reference.start),
+                end: document.positionAt(reference.start + urlPath.length)
+            },
+            message: `No route matches '${urlPath}'.${suggestions.length > 0 ? ` Did you mean '${suggestions[0]}'?` : ''}`,
+            source: 'zenith',
+            code: UNKNOWN_ROUTE_DIAGNOSTIC_CODE,
+            data
+        });
+    }
+}
+
+/**
+ * Attributes any component accepts without declaring them as props.
+ */
+function isPassThroughAttribute(name: string): boolean {
+    return /^(?:class|id|style|slot|key|ref)$/.test(name) || name.startsWith('data-') || name.startsWith('aria-');
+}
+
+/**
+ * Validate the attributes passed to a component against its props:
+ * unknown props (with a did-you-mean), missing required props, and
+ * string literals passed where a number or boolean is expected.
+ */
+function collectPropDiagnostics(
+    document: ZenithTextDocumentLike,
+    element: ZenElement,
+    component: ComponentInfo,
+    diagnostics: ZenithDiagnostic[]
+): void {
+    const props = new Map(component.props.map((prop) => [prop.name, prop]));
+    const declared = component.props.length > 0 && component.props.every((prop) => !prop.inferred);
+    const passed = new Set<string>();
+    let hasSpread = false;
+
+    for (const attribute of element.attributes) {
+        if (attribute.kind === 'directive' || attribute.kind === 'event') continue;
+
+        let name = attribute.kind === 'binding' ? attribute.name.slice(1) : attribute.name;
+        if (!name && attribute.quote === '{') {
+            // `{...rest}` spreads props; `{title}` is shorthand for title={title}.
+            const shorthand = attribute.value?.trim() ?? '';
+            if (shorthand.startsWith('...')) {
+                hasSpread = true;
+                continue;
             }
+            name = /^[a-zA-Z_$][\w$]*$/.test(shorthand) ? shorthand : '';
         }
+        if (!name) continue;
+
+        passed.add(name);
+        const prop = props.get(name);
+        const nameRange = {
+            start: document.positionAt(attribute.nameStart),
+            end: document.positionAt(attribute.nameEnd > attribute.nameStart ? attribute.nameEnd : attribute.end)
+        };
 
-        if (!directiveValue.trim()) {
-            const startPos = document.positionAt(match.index || 0);
-            const endPos = document.positionAt((match.index || 0) + (match[0] || '').length);
+        if (!prop) {
+            if (!declared || isPassThroughAttribute(name) || /^on[A-Z]/.test(name)) continue;
 
+            const suggestion = findClosestMatch(name, [...props.keys()].filter((candidate) => !passed.has(candidate)));
             diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: { start: startPos, end: endPos },
-                message: `${directiveName} requires a value`,
-                source: 'zenith'
+                severity: DiagnosticSeverity.Warning,
+                range: nameRange,
+                message: `Unknown prop '${name}' on <${element.tagName}>.${suggestion ? ` Did you mean '${suggestion}'?` : ''}`,
+                source: 'zenith',
+                code: UNKNOWN_PROP_DIAGNOSTIC_CODE,
+                ...(suggestion && attribute.kind === 'attribute' && attribute.nameEnd > attribute.nameStart
+                    ? { data: { replacement: suggestion, title: `Change to '${suggestion}'` } }
+                    : {})
+            });
+            continue;
+        }
+
+        const expected = prop.type.replace(/\s*\|\s*undefined\b/g, '').trim();
+        const isStringLiteral = attribute.kind === 'attribute' && (attribute.quote === '"' || attribute.quote === "'");
+        if (isStringLiteral && (expected === 'number' || expected === 'boolean')) {
+            const literal = (attribute.value ?? '').trim();
+            const valid = expected === 'number'
+                ? literal !== '' && !Number.isNaN(Number(literal))
+                : literal === 'true' || literal === 'false';
+
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: { start: document.positionAt(attribute.start), end: document.positionAt(attribute.end) },
+                message: `Prop '${name}' of <${element.tagName}> expects ${expected}, but a string literal was passed.`,
+                source: 'zenith',
+                code: PROP_TYPE_DIAGNOSTIC_CODE,
+                ...(valid
+                    ? { data: { replacement: `${name}={${literal}}`, title: `Change to ${name}={${literal}}` } }
+                    : {})
             });
         }
     }
 
-    const slotForPattern = /<slot[^>]*zen:for/g;
-    while ((match = slotForPattern.exec(text)) !== null) {
-        const startPos = document.positionAt(match.index || 0);
-        const endPos = document.positionAt((match.index || 0) + (match[0] || '').length);
+    if (hasSpread) return;
+
+    for (const prop of component.props) {
+        if (!prop.required || passed.has(prop.name)) continue;
 
         diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: { start: startPos, end: endPos },
-            message: 'zen:for cannot be used on <slot> elements',
-            source: 'zenith'
+            severity: DiagnosticSeverity.Warning,
+            range: { start: document.positionAt(element.tagNameStart), end: document.positionAt(element.tagNameEnd) },
+            message: `Missing required prop '${prop.name}' on <${element.tagName}>.`,
+            source: 'zenith',
+            code: MISSING_PROP_DIAGNOSTIC_CODE
         });
     }
 }
 
+/**
+ * Validate directive usage.
+ */
+function collectDirectiveDiagnostics(
+    document: ZenithTextDocumentLike,
+    doc: ZenDocument,
+    diagnostics: ZenithDiagnostic[]
+): void {
+    for (const element of doc.elements) {
+        for (const attribute of element.attributes) {
+            if (!/^zen:(?:if|for|effect|show)$/.test(attribute.name) || attribute.value === null) {
+                continue;
+            }
+
+            const directiveName = attribute.name;
+            const directiveValue = attribute.value;
+            const startPos = document.positionAt(attribute.start);
+            const endPos = document.positionAt(attribute.end);
+
+            if (directiveName === 'zen:for') {
+                const parsed = parseForExpression(directiveValue);
+                if (!parsed) {
+                    diagnostics.push({
+                        severity: DiagnosticSeverity.Error,
+                        range: { start: startPos, end: endPos },
+                        message: 'Invalid zen:for syntax. Expected: "item in items" or "item, index in items"',
+                        source: 'zenith'
+                    });
+                }
+            }
+
+            if (!directiveValue.trim()) {
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Error,
+                    range: { start: startPos, end: endPos },
+                    message: `${directiveName} requires a value`,
+                    source: 'zenith'
+                });
+            }
+        }
+
+        if (element.tagName === 'slot') {
+            const forAttribute = element.attributes.find((attribute) => attribute.name === 'zen:for');
+            if (forAttribute) {
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Error,
+                    range: {
+                        start: document.positionAt(element.start),
+                        end: document.positionAt(forAttribute.nameEnd)
+                    },
+                    message: 'zen:for cannot be used on <slot> elements',
+                    source: 'zenith'
+                });
+            }
+        }
+    }
+}
+
 /**
  * Validate imports.
  */
 function collectImportDiagnostics(
     document: ZenithTextDocumentLike,
-    text: string,
+    doc: ZenDocument,
+    config: ZenithConfig | null,
     diagnostics: ZenithDiagnostic[]
 ): void {
-    const scriptMatch = text.match(/<script[^>]*>([\s\S]*?)<\/script>/i);
-    if (!scriptMatch) return;
+    const script: ZenRawBlock | undefined = doc.scripts[0];
+    if (!script) return;
 
-    const scriptContent = scriptMatch[1];
-    const scriptStart = (scriptMatch.index || 0) + scriptMatch[0].indexOf(scriptContent);
+    const scriptContent = script.content;
+    const scriptStart = script.contentStart;
     const imports = parseZenithImports(scriptContent);
 
     for (const imp of imports) {
         const resolved = resolveModule(imp.module);
+        const configured = !!config?.plugins?.includes(getPluginId(imp.module));
 
-        if (isPluginModule(imp.module) && !resolved.isKnown) {
+        // Plugins the config's plugin list leaves out are not loaded.
+        if (isPluginModule(imp.module) && resolved.isKnown && config?.plugins && config.configPath && !configured) {
+            diagnostics.push({
+                severity: DiagnosticSeverity.Information,
+                range: { start: document.positionAt(scriptStart + imp.start), end: document.positionAt(scriptStart + imp.end) },
+                message: `Plugin '${imp.module}' is not enabled in ${path.basename(config.configPath)}.`,
+                source: 'zenith'
+            });
+        }
+
+        if (isPluginModule(imp.module) && !resolved.isKnown && !configured) {
             const importPattern = new RegExp(`import[^'\"]*['\"]${imp.module.replace(':', '\\:')}['\"]`);
             const importMatch = scriptContent.match(importPattern);
 
@@ -543,25 +709,47 @@ function collectImportDiagnostics(
     }
 }
 
+/**
+ * Collect every template expression: `{...}` in text content and
+ * `{...}` attribute values. Offsets span the braces.
+ */
+function getTemplateExpressionSpans(doc: ZenDocument): Array<{ expression: string; start: number; end: number }> {
+    const spans: Array<{ expression: string; start: number; end: number }> = [];
+
+    for (const expression of doc.expressions) {
+        spans.push({ expression: expression.content, start: expression.start, end: expression.end });
+    }
+
+    for (const element of doc.elements) {
+        for (const attribute of element.attributes) {
+            if (attribute.quote === '{' && attribute.value !== null) {
+                spans.push({
+                    expression: attribute.value,
+                    start: attribute.valueStart - 1,
+                    end: attribute.closed ? attribute.valueEnd + 1 : attribute.valueEnd
+                });
+            }
+        }
+    }
+
+    return spans.sort((a, b) => a.start - b.start);
+}
+
 /**
  * Validate expressions for dangerous patterns.
  */
 function collectExpressionDiagnostics(
     document: ZenithTextDocumentLike,
-    text: string,
+    doc: ZenDocument,
     diagnostics: ZenithDiagnostic[]
 ): void {
-    const expressionPattern = /\{([^}]+)\}/g;
-    let match: RegExpExecArray | null;
+    for (const { expression, start, end } of getTemplateExpressionSpans(doc)) {
+        if (!expression.trim()) continue;
 
-    while ((match = expressionPattern.exec(text)) !== null) {
-        const expression = match[1];
-        const offset = match.index || 0;
+        const startPos = document.positionAt(start);
+        const endPos = document.positionAt(end);
 
         if (expression.includes('eval(') || expression.includes('Function(')) {
-            const startPos = document.positionAt(offset);
-            const endPos = document.positionAt(offset + (match[0] || '').length);
-
             diagnostics.push({
                 severity: DiagnosticSeverity.Error,
                 range: { start: startPos, end: endPos },
@@ -571,9 +759,6 @@ function collectExpressionDiagnostics(
         }
 
         if (/\bwith\s*\(/.test(expression)) {
-            const startPos = document.positionAt(offset);
-            const endPos = document.positionAt(offset + (match[0] || '').length);
-
             diagnostics.push({
                 severity: DiagnosticSeverity.Error,
                 range: { start: startPos, end: endPos },
@@ -583,9 +768,6 @@ function collectExpressionDiagnostics(
         }
 
         if (expression.includes(' as ') || (expression.includes('<') && expression.includes('>'))) {
-            const startPos = document.positionAt(offset);
-            const endPos = document.positionAt(offset + (match[0] || '').length);
-
             diagnostics.push({
                 severity: DiagnosticSeverity.Error,
                 range: { start: startPos, end: endPos },
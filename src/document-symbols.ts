@@ -0,0 +1,213 @@
+/**
+ * Document Symbols
+ *
+ * Hierarchical outline of a .zen file:
+ * - <script>: imports, `state` declarations and functions
+ * - template: element tree with components, slots and directives labeled
+ * - <style>: top-level selectors and at-rules
+ */
+
+import { parseForExpression } from './metadata/directive-metadata';
+import { getParsedDocument, type ZenElement, type ZenNode, type ZenRawBlock } from './parser';
+import { extractFunctions, extractImportBindings, extractStates } from './script-symbols';
+import { SymbolKind } from './protocol';
+import type { ZenithRange, ZenithTextDocumentLike } from './diagnostics';
+
+export interface ZenithDocumentSymbol {
+    name: string;
+    detail?: string;
+    kind: number;
+    range: ZenithRange;
+    selectionRange: ZenithRange;
+    children?: ZenithDocumentSymbol[];
+}
+
+function span(document: ZenithTextDocumentLike, start: number, end: number): ZenithRange {
+    return { start: document.positionAt(start), end: document.positionAt(end) };
+}
+
+function buildScriptSymbols(document: ZenithTextDocumentLike, block: ZenRawBlock): ZenithDocumentSymbol {
+    const children: ZenithDocumentSymbol[] = [];
+
+    for (const binding of extractImportBindings(block.content, block.contentStart)) {
+        const range = span(document, binding.offset, binding.offset + binding.name.length);
+        children.push({
+            name: binding.name,
+            detail: `import from '${binding.module}'`,
+            kind: SymbolKind.Module,
+            range,
+            selectionRange: range
+        });
+    }
+
+    for (const state of extractStates(block.content, block.contentStart).values()) {
+        const range = span(document, state.offset, state.offset + state.name.length);
+        children.push({
+            name: state.name,
+            detail: `state = ${state.value}`,
+            kind: SymbolKind.Variable,
+            range,
+            selectionRange: range
+        });
+    }
+
+    for (const func of extractFunctions(block.content, block.contentStart)) {
+        const range = span(document, func.offset, func.offset + func.name.length);
+        children.push({
+            name: func.name,
+            detail: `${func.isAsync ? 'async ' : ''}function(${func.params})`,
+            kind: SymbolKind.Function,
+            range,
+            selectionRange: range
+        });
+    }
+
+    children.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character);
+
+    return {
+        name: '<script>',
+        kind: SymbolKind.Module,
+        range: span(document, block.start, block.end),
+        selectionRange: span(document, block.start, block.startTagEnd),
+        children
+    };
+}
+
+/**
+ * Find top-level CSS rules: `selector { ... }` and at-rules.
+ */
+export function extractTopLevelCssRules(css: string): Array<{ name: string; start: number; end: number }> {
+    const rules: Array<{ name: string; start: number; end: number }> = [];
+    const stripped = css.replace(/\/\*[\s\S]*?\*\//g, (comment) => ' '.repeat(comment.length));
+    let depth = 0;
+    let preludeStart = 0;
+    let ruleStart = -1;
+    let ruleName = '';
+
+    for (let i = 0; i < stripped.length; i++) {
+        const ch = stripped[i];
+
+        if (ch === '"' || ch === "'") {
+            const close = stripped.indexOf(ch, i + 1);
+            i = close < 0 ? stripped.length : close;
+            continue;
+        }
+
+        if (ch === '{') {
+            if (depth === 0) {
+                const prelude = stripped.slice(preludeStart, i);
+                const leading = prelude.length - prelude.trimStart().length;
+                ruleStart = preludeStart + leading;
+                ruleName = prelude.trim().replace(/\s+/g, ' ');
+            }
+            depth++;
+        } else if (ch === '}') {
+            depth = Math.max(0, depth - 1);
+            if (depth === 0) {
+                if (ruleStart >= 0 && ruleName) {
+                    rules.push({ name: ruleName, start: ruleStart, end: i + 1 });
+                }
+                ruleStart = -1;
+                preludeStart = i + 1;
+            }
+        } else if (ch === ';' && depth === 0) {
+            // Statement at-rules such as @import
+            const statement = stripped.slice(preludeStart, i + 1);
+            const leading = statement.length - statement.trimStart().length;
+            if (statement.trim().startsWith('@')) {
+                rules.push({ name: statement.trim().slice(0, -1), start: preludeStart + leading, end: i + 1 });
+            }
+            preludeStart = i + 1;
+        }
+    }
+
+    return rules;
+}
+
+function buildStyleSymbols(document: ZenithTextDocumentLike, block: ZenRawBlock): ZenithDocumentSymbol {
+    const children: ZenithDocumentSymbol[] = extractTopLevelCssRules(block.content).map((rule) => {
+        const start = block.contentStart + rule.start;
+        return {
+            name: rule.name,
+            kind: rule.name.startsWith('@') ? SymbolKind.Namespace : SymbolKind.Class,
+            range: span(document, start, block.contentStart + rule.end),
+            selectionRange: span(document, start, start + rule.name.length)
+        };
+    });
+
+    return {
+        name: '<style>',
+        kind: SymbolKind.Module,
+        range: span(document, block.start, block.end),
+        selectionRange: span(document, block.start, block.startTagEnd),
+        children
+    };
+}
+
+function describeElement(element: ZenElement): { name: string; detail?: string; kind: number } {
+    let name = element.tagName;
+    const id = element.attributes.find((attr) => attr.name === 'id' && attr.quote !== '{');
+    const className = element.attributes.find((attr) => attr.name === 'class' && attr.quote !== '{');
+    if (id?.value) name += `#${id.value.trim()}`;
+    if (className?.value) {
+        name += className.value.trim().split(/\s+/).filter(Boolean).map((c) => `.${c}`).join('');
+    }
+
+    const labels: string[] = [];
+    let kind: number = SymbolKind.Field;
+
+    if (element.isComponent) {
+        labels.push('component');
+        kind = SymbolKind.Class;
+    } else if (element.tagName === 'slot') {
+        labels.push('slot');
+        kind = SymbolKind.Interface;
+    }
+
+    for (const attribute of element.attributes) {
+        if (attribute.name === 'zen:for' && attribute.value !== null) {
+            const parsed = parseForExpression(attribute.value);
+            labels.push(parsed
+                ? `zen:for ${parsed.itemVar}${parsed.indexVar ? `, ${parsed.indexVar}` : ''} in ${parsed.source}`
+                : 'zen:for');
+            kind = SymbolKind.Array;
+        } else if ((attribute.name === 'zen:if' || attribute.name === 'zen:show') && attribute.value !== null) {
+            labels.push(`${attribute.name} ${attribute.value.trim()}`);
+            if (kind === SymbolKind.Field) kind = SymbolKind.Boolean;
+        }
+    }
+
+    return { name, detail: labels.length > 0 ? labels.join(' · ') : undefined, kind };
+}
+
+function buildNodeSymbols(document: ZenithTextDocumentLike, nodes: ZenNode[]): ZenithDocumentSymbol[] {
+    const symbols: ZenithDocumentSymbol[] = [];
+
+    for (const node of nodes) {
+        if (node.type === 'script') {
+            symbols.push(buildScriptSymbols(document, node));
+        } else if (node.type === 'style') {
+            symbols.push(buildStyleSymbols(document, node));
+        } else if (node.type === 'element') {
+            const { name, detail, kind } = describeElement(node);
+            symbols.push({
+                name,
+                detail,
+                kind,
+                range: span(document, node.start, node.end),
+                selectionRange: span(document, node.tagNameStart, node.tagNameEnd),
+                children: buildNodeSymbols(document, node.children)
+            });
+        }
+    }
+
+    return symbols;
+}
+
+/**
+ * Build the hierarchical outline of a document.
+ */
+export function buildDocumentSymbols(document: ZenithTextDocumentLike): ZenithDocumentSymbol[] {
+    const doc = getParsedDocument(document.uri, document.getText());
+    return buildNodeSymbols(document, doc.children);
+}
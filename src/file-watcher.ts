@@ -0,0 +1,144 @@
+/**
+ * File Watching
+ *
+ * The files whose changes affect project graphs and diagnostics: .zen
+ * files, zenith.config.*, package.json, tsconfig.json/jsconfig.json and
+ * local CSS.
+ * Clients that support dynamic registration are asked to watch the globs;
+ * for the others (some Neovim setups) the server can watch the workspace
+ * itself with fs.watch.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { ProjectFileChangeType } from './project';
+
+export const WATCHED_FILE_GLOBS = [
+    '**/*.zen',
+    '**/zenith.config.{ts,js,mjs,cjs,json}',
+    '**/package.json',
+    '**/{tsconfig,jsconfig}.json',
+    '**/*.css'
+];
+
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', '.zenith']);
+
+export interface WatchedFileEvent {
+    filePath: string;
+    change: ProjectFileChangeType;
+}
+
+export interface FileWatcher {
+    close(): void;
+}
+
+/**
+ * Whether a file matches the watched globs. Files under node_modules,
+ * .git and build output are never local sources.
+ */
+export function isWatchedFile(filePath: string): boolean {
+    const parts = filePath.split(/[\\/]/);
+    if (parts.some((part) => IGNORED_DIRS.has(part))) {
+        return false;
+    }
+
+    const name = parts[parts.length - 1];
+    return name.endsWith('.zen') ||
+        name.endsWith('.css') ||
+        /^zenith\.config\.(?:ts|js|mjs|cjs|json)$/.test(name) ||
+        name === 'package.json' ||
+        name === 'tsconfig.json' ||
+        name === 'jsconfig.json';
+}
+
+/**
+ * Watch directory trees with fs.watch and report matching file events in
+ * debounced batches. Each directory is watched on its own: a recursive
+ * watch would also cover node_modules, .git and build output, which can
+ * exhaust the inotify watch limit on Linux. Directories created later are
+ * picked up, and their watched files reported as created. Roots that
+ * cannot be watched are skipped.
+ */
+export function createFileWatcher(
+    roots: string[],
+    onChange: (events: WatchedFileEvent[]) => void,
+    debounceMs = 100
+): FileWatcher {
+    const pending = new Map<string, ProjectFileChangeType>();
+    const watchers = new Map<string, fs.FSWatcher>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+
+    const flush = () => {
+        timer = null;
+        const events = [...pending].map(([filePath, change]) => ({ filePath, change }));
+        pending.clear();
+        if (events.length > 0) onChange(events);
+    };
+
+    const record = (filePath: string, change: ProjectFileChangeType) => {
+        pending.set(filePath, pending.get(filePath) === 'created' && change === 'changed' ? 'created' : change);
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flush, debounceMs);
+    };
+
+    const watchDirectory = (dir: string, reportFiles: boolean) => {
+        if (closed || watchers.has(dir)) return;
+
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+            const watcher = fs.watch(dir, (eventType, fileName) => {
+                if (!fileName) return;
+
+                const filePath = path.join(dir, fileName.toString());
+                let stats: fs.Stats | null = null;
+                try {
+                    stats = fs.statSync(filePath);
+                } catch {
+                    // Deleted.
+                }
+
+                if (stats?.isDirectory()) {
+                    if (!IGNORED_DIRS.has(fileName.toString())) watchDirectory(filePath, true);
+                    return;
+                }
+                if (!isWatchedFile(filePath)) return;
+
+                // 'rename' covers both creation and deletion.
+                record(filePath, !stats ? 'deleted' : eventType === 'rename' ? 'created' : 'changed');
+            });
+            watcher.on('error', () => {
+                // The directory itself was removed.
+                watcher.close();
+                watchers.delete(dir);
+            });
+            watchers.set(dir, watcher);
+        } catch {
+            return;
+        }
+
+        for (const entry of entries) {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (!IGNORED_DIRS.has(entry.name)) watchDirectory(entryPath, reportFiles);
+            } else if (reportFiles && isWatchedFile(entryPath)) {
+                record(entryPath, 'created');
+            }
+        }
+    };
+
+    for (const root of roots) {
+        watchDirectory(path.resolve(root), false);
+    }
+
+    return {
+        close() {
+            closed = true;
+            if (timer) clearTimeout(timer);
+            for (const watcher of watchers.values()) watcher.close();
+            watchers.clear();
+        }
+    };
+}
@@ -6,6 +6,9 @@
  * - zenith:* imports are plugin modules (soft diagnostics if missing)
  */
 
+import ts from 'typescript';
+
+import { desugarStateDeclarations } from './script-projection';
 import { 
     CORE_MODULES, 
     getCoreModule, 
@@ -25,11 +28,35 @@ import {
     type PluginExport 
 } from './metadata/plugin-imports';
 
+export interface ParsedImportSpecifier {
+    /** Exported name. */
+    name: string;
+    /** Local binding (differs from `name` for `a as b`). */
+    local: string;
+    /** Offset of the local binding in the script. */
+    localStart: number;
+    /** Inline `type` modifier (`import { type A }`). */
+    isType: boolean;
+}
+
 export interface ParsedImport {
     module: string;
+    /** Imported names; `* as x` for namespace imports, the local name for default imports. */
     specifiers: string[];
     isType: boolean;
+    /** 1-based line of the import keyword. */
     line: number;
+    /** Offsets of the whole statement in the script, including a trailing semicolon. */
+    start: number;
+    end: number;
+    /** Offsets of the module specifier text, inside its quotes. */
+    moduleStart: number;
+    moduleEnd: number;
+    defaultImport?: string;
+    defaultImportStart?: number;
+    namespaceImport?: string;
+    namespaceImportStart?: number;
+    named: ParsedImportSpecifier[];
 }
 
 export interface ResolvedImport {
@@ -40,66 +67,53 @@ export interface ResolvedImport {
 }
 
 /**
- * Parse Zenith imports from script content
+ * Parse the import statements of script content, single- or multi-line,
+ * from any module (zenith core, zenith:* plugins, packages, local files).
  */
 export function parseZenithImports(script: string): ParsedImport[] {
     const imports: ParsedImport[] = [];
-    const lines = script.split('\n');
-    
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        
-        // Match: import { x, y } from 'module' or import type { x } from 'module'
-        const importMatch = line.match(/import\s+(type\s+)?(?:\{([^}]+)\}|(\*\s+as\s+\w+)|(\w+))\s+from\s+['"]([^'"]+)['"]/);
-        
-        if (importMatch) {
-            const isType = !!importMatch[1];
-            const namedImports = importMatch[2];
-            const namespaceImport = importMatch[3];
-            const defaultImport = importMatch[4];
-            const moduleName = importMatch[5];
-            
-            // Only track zenith imports
-            if (moduleName.startsWith('zenith') || moduleName.startsWith('zenith:')) {
-                const specifiers: string[] = [];
-                
-                if (namedImports) {
-                    // Parse named imports: { a, b as c, d }
-                    const parts = namedImports.split(',');
-                    for (const part of parts) {
-                        const cleaned = part.trim().split(/\s+as\s+/)[0].trim();
-                        if (cleaned) specifiers.push(cleaned);
-                    }
-                } else if (namespaceImport) {
-                    specifiers.push(namespaceImport.trim());
-                } else if (defaultImport) {
-                    specifiers.push(defaultImport);
-                }
-                
-                imports.push({
-                    module: moduleName,
-                    specifiers,
-                    isType,
-                    line: i + 1
-                });
-            }
+    const source = ts.createSourceFile('imports.ts', desugarStateDeclarations(script), ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+
+    for (const statement of source.statements) {
+        if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+            continue;
         }
-        
-        // Match: import 'module' (side-effect import)
-        const sideEffectMatch = line.match(/import\s+['"]([^'"]+)['"]/);
-        if (sideEffectMatch && !importMatch) {
-            const moduleName = sideEffectMatch[1];
-            if (moduleName.startsWith('zenith') || moduleName.startsWith('zenith:')) {
-                imports.push({
-                    module: moduleName,
-                    specifiers: [],
-                    isType: false,
-                    line: i + 1
-                });
+
+        const clause = statement.importClause;
+        const bindings = clause?.namedBindings;
+        const parsed: ParsedImport = {
+            module: statement.moduleSpecifier.text,
+            specifiers: [],
+            isType: !!clause?.isTypeOnly,
+            line: source.getLineAndCharacterOfPosition(statement.getStart(source)).line + 1,
+            start: statement.getStart(source),
+            end: statement.getEnd(),
+            moduleStart: statement.moduleSpecifier.getStart(source) + 1,
+            moduleEnd: statement.moduleSpecifier.getEnd() - 1,
+            named: []
+        };
+
+        if (clause?.name) {
+            parsed.defaultImport = clause.name.text;
+            parsed.defaultImportStart = clause.name.getStart(source);
+            parsed.specifiers.push(clause.name.text);
+        }
+
+        if (bindings && ts.isNamespaceImport(bindings)) {
+            parsed.namespaceImport = bindings.name.text;
+            parsed.namespaceImportStart = bindings.name.getStart(source);
+            parsed.specifiers.push(`* as ${bindings.name.text}`);
+        } else if (bindings) {
+            for (const element of bindings.elements) {
+                const name = (element.propertyName ?? element.name).text;
+                parsed.named.push({ name, local: element.name.text, localStart: element.name.getStart(source), isType: element.isTypeOnly });
+                parsed.specifiers.push(name);
             }
         }
+
+        imports.push(parsed);
     }
-    
+
     return imports;
 }
 
@@ -199,6 +213,15 @@ export function getModuleExports(moduleName: string): Array<ModuleExport | Plugi
     return [];
 }
 
+/**
+ * Get the modules that export a name (core modules first)
+ */
+export function findExportModules(exportName: string): string[] {
+    return getAllModules()
+        .filter((mod) => getModuleExports(mod.module).some((exp) => exp.name === exportName))
+        .map((mod) => mod.module);
+}
+
 // Re-export utilities
 export { isPluginModule } from './metadata/plugin-imports';
 
@@ -95,15 +95,27 @@ export function canPlaceDirective(directiveName: string, elementType: 'element'
 
 /**
  * Parse a zen:for expression to extract variables
+ *
+ * Offsets are relative to the start of the expression.
  */
-export function parseForExpression(expression: string): { itemVar: string; indexVar?: string; source: string } | null {
+export function parseForExpression(expression: string): {
+    itemVar: string;
+    indexVar?: string;
+    source: string;
+    itemOffset: number;
+    indexOffset?: number;
+    sourceOffset: number;
+} | null {
     // Match: "item in items" or "item, index in items"
-    const match = expression.match(/^\s*([a-zA-Z_$][\w$]*)(?:\s*,\s*([a-zA-Z_$][\w$]*))?\s+in\s+(.+)\s*$/);
-    if (!match) return null;
+    const match = /^\s*([a-zA-Z_$][\w$]*)(?:\s*,\s*([a-zA-Z_$][\w$]*))?\s+in\s+(.+?)\s*$/d.exec(expression);
+    if (!match || !match.indices) return null;
     
     return {
         itemVar: match[1],
         indexVar: match[2],
-        source: match[3].trim()
+        source: match[3].trim(),
+        itemOffset: match.indices[1][0],
+        indexOffset: match.indices[2]?.[0],
+        sourceOffset: match.indices[3][0]
     };
 }
@@ -0,0 +1,533 @@
+/**
+ * Module Resolution
+ *
+ * Resolves script import specifiers to files the way the build does:
+ * - relative and root-absolute paths, with implied extensions and index files
+ * - zenith.config.* aliases
+ * - tsconfig.json / jsconfig.json `paths` and `baseUrl` (following `extends`)
+ * - packages in node_modules, through their `exports` map or `main`
+ *
+ * Zenith core and plugin modules are virtual and Node builtins need no
+ * file; both count as resolved. Resolution powers go-to-definition on
+ * import specifiers, import path completion and unresolved-import
+ * diagnostics.
+ */
+
+import * as fs from 'fs';
+import { builtinModules } from 'module';
+import * as path from 'path';
+import ts from 'typescript';
+
+import { getZenithConfigFor, resolveConfigAlias } from './config';
+import { parseZenithImports, resolveModule } from './imports';
+import { isCssContractImportSpecifier, isLocalCssSpecifier, stripImportSuffix } from './contracts';
+import { UNRESOLVED_IMPORT_DIAGNOSTIC_CODE } from './code-actions';
+import type { ZenDocument } from './parser';
+import type { ZenithDiagnostic, ZenithRange, ZenithTextDocumentLike } from './diagnostics';
+import { CompletionItemKind, DiagnosticSeverity } from './protocol';
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.js', '.jsx', '.mjs', '.cjs', '.zen', '.json', '.css', '.d.ts'];
+const EXPORT_CONDITIONS = ['import', 'module', 'types', 'default', 'node', 'require'];
+
+export type ModuleResolutionKind = 'file' | 'package' | 'virtual' | 'builtin';
+
+export interface ModuleResolution {
+    kind: ModuleResolutionKind;
+    /** Resolved file, for files and packages. */
+    filePath?: string;
+}
+
+export interface TsconfigPaths {
+    /** Directory `paths` targets are relative to. */
+    baseDir: string;
+    /** Explicit `baseUrl`, which also resolves bare specifiers. */
+    baseUrl: string | null;
+    paths: Record<string, string[]>;
+}
+
+export interface ZenithImportPathCompletionItem {
+    label: string;
+    kind: number;
+    detail: string;
+    filterText: string;
+    sortText: string;
+    textEdit: { range: ZenithRange; newText: string };
+}
+
+const tsconfigCache = new Map<string, { mtimeMs: number; paths: TsconfigPaths | null }>();
+
+function isFile(candidate: string): boolean {
+    try {
+        return fs.statSync(candidate).isFile();
+    } catch {
+        return false;
+    }
+}
+
+function isDirectory(candidate: string): boolean {
+    try {
+        return fs.statSync(candidate).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * The file a path refers to: itself, with an implied extension, or its
+ * index file. `.js` specifiers also match `.ts` sources.
+ */
+function resolveFile(target: string): string | null {
+    if (isFile(target)) return target;
+
+    for (const extension of SOURCE_EXTENSIONS) {
+        if (isFile(`${target}${extension}`)) return `${target}${extension}`;
+    }
+
+    const withoutJs = target.replace(/\.(m|c)?js$/, '');
+    if (withoutJs !== target) {
+        for (const extension of ['.ts', '.tsx', '.mts', '.cts']) {
+            if (isFile(`${withoutJs}${extension}`)) return `${withoutJs}${extension}`;
+        }
+    }
+
+    if (isDirectory(target)) {
+        for (const extension of SOURCE_EXTENSIONS) {
+            const index = path.join(target, `index${extension}`);
+            if (isFile(index)) return index;
+        }
+    }
+
+    return null;
+}
+
+function readJsonConfig(filePath: string): Record<string, unknown> | null {
+    const result = ts.readConfigFile(filePath, ts.sys.readFile);
+    return result.error || typeof result.config !== 'object' ? null : result.config as Record<string, unknown>;
+}
+
+/**
+ * Merge `baseUrl`/`paths` along a tsconfig's `extends` chain. Relative
+ * values are resolved against the file that declares them.
+ */
+function readTsconfigChain(filePath: string, depth = 0): { baseUrl?: string; paths?: Record<string, string[]>; pathsDir?: string } {
+    const config = readJsonConfig(filePath);
+    if (!config || depth > 10) return {};
+
+    const dir = path.dirname(filePath);
+    let inherited: ReturnType<typeof readTsconfigChain> = {};
+    const extendsValue = typeof config.extends === 'string' ? config.extends : null;
+    if (extendsValue && (extendsValue.startsWith('.') || path.isAbsolute(extendsValue))) {
+        const parent = path.resolve(dir, extendsValue);
+        inherited = readTsconfigChain(isFile(parent) ? parent : `${parent}.json`, depth + 1);
+    }
+
+    const options = (config.compilerOptions ?? {}) as { baseUrl?: unknown; paths?: unknown };
+    return {
+        baseUrl: typeof options.baseUrl === 'string' ? path.resolve(dir, options.baseUrl) : inherited.baseUrl,
+        paths: typeof options.paths === 'object' && options.paths !== null ? options.paths as Record<string, string[]> : inherited.paths,
+        pathsDir: typeof options.paths === 'object' && options.paths !== null ? dir : inherited.pathsDir
+    };
+}
+
+/**
+ * The `paths`/`baseUrl` of the nearest tsconfig.json or jsconfig.json
+ * above a file, or null when neither configures any. Cached until the
+ * file changes.
+ */
+export function readTsconfigPaths(fromFile: string): TsconfigPaths | null {
+    let dir = path.dirname(path.resolve(fromFile));
+    while (true) {
+        const configPath = ['tsconfig.json', 'jsconfig.json'].map((name) => path.join(dir, name)).find(isFile);
+        if (configPath) {
+            const mtimeMs = fs.statSync(configPath).mtimeMs;
+            const cached = tsconfigCache.get(configPath);
+            if (cached && cached.mtimeMs === mtimeMs) {
+                return cached.paths;
+            }
+
+            const chain = readTsconfigChain(configPath);
+            const paths = chain.baseUrl || chain.paths
+                ? { baseDir: chain.baseUrl ?? chain.pathsDir ?? dir, baseUrl: chain.baseUrl ?? null, paths: chain.paths ?? {} }
+                : null;
+            tsconfigCache.set(configPath, { mtimeMs, paths });
+            return paths;
+        }
+
+        const parent = path.dirname(dir);
+        if (parent === dir) return null;
+        dir = parent;
+    }
+}
+
+/**
+ * Drop cached tsconfig paths. The cache is keyed on the nearest config's
+ * mtime, which misses edits to the configs it extends.
+ */
+export function clearResolutionCaches(): void {
+    tsconfigCache.clear();
+}
+
+/**
+ * Candidate paths for a specifier under tsconfig `paths` (`@/*` ->
+ * `src/*`), exact patterns before wildcard ones with the longest prefix.
+ */
+function getTsconfigPathTargets(tsconfig: TsconfigPaths, specifier: string): string[] {
+    const patterns = Object.keys(tsconfig.paths)
+        .filter((pattern) => {
+            const star = pattern.indexOf('*');
+            return star < 0
+                ? pattern === specifier
+                : specifier.startsWith(pattern.slice(0, star)) && specifier.endsWith(pattern.slice(star + 1)) &&
+                    specifier.length >= pattern.length - 1;
+        })
+        .sort((a, b) => Number(a.includes('*')) - Number(b.includes('*')) || b.indexOf('*') - a.indexOf('*'));
+
+    return patterns.flatMap((pattern) => {
+        const star = pattern.indexOf('*');
+        const matched = star < 0 ? '' : specifier.slice(star, specifier.length - (pattern.length - star - 1));
+        return (tsconfig.paths[pattern] ?? []).map((target) => path.resolve(tsconfig.baseDir, target.replace('*', matched)));
+    });
+}
+
+function splitPackageSpecifier(specifier: string): { name: string; subpath: string } {
+    const parts = specifier.split('/');
+    const count = specifier.startsWith('@') ? 2 : 1;
+    const rest = parts.slice(count).join('/');
+    return { name: parts.slice(0, count).join('/'), subpath: rest ? `./${rest}` : '.' };
+}
+
+/**
+ * The target of a package.json `exports` value for a condition-less
+ * lookup: the first of import/module/types/default/node/require.
+ */
+function pickExportTarget(value: unknown): string | null {
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) {
+        for (const entry of value) {
+            const target = pickExportTarget(entry);
+            if (target) return target;
+        }
+        return null;
+    }
+    if (typeof value === 'object' && value !== null) {
+        const conditions = value as Record<string, unknown>;
+        for (const condition of EXPORT_CONDITIONS) {
+            if (condition in conditions) {
+                const target = pickExportTarget(conditions[condition]);
+                if (target) return target;
+            }
+        }
+    }
+    return null;
+}
+
+function resolvePackageExports(exportsField: unknown, subpath: string): string | null | undefined {
+    const isSubpathMap = typeof exportsField === 'object' && exportsField !== null && !Array.isArray(exportsField) &&
+        Object.keys(exportsField).some((key) => key.startsWith('.'));
+
+    if (!isSubpathMap) {
+        return subpath === '.' ? pickExportTarget(exportsField) : null;
+    }
+
+    const map = exportsField as Record<string, unknown>;
+    if (subpath in map) {
+        return pickExportTarget(map[subpath]);
+    }
+
+    for (const key of Object.keys(map).sort((a, b) => b.length - a.length)) {
+        const star = key.indexOf('*');
+        if (star < 0) continue;
+
+        const prefix = key.slice(0, star);
+        const suffix = key.slice(star + 1);
+        if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= key.length - 1) {
+            const target = pickExportTarget(map[key]);
+            return target?.replace(/\*/g, subpath.slice(prefix.length, subpath.length - suffix.length)) ?? null;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * The nearest node_modules directories above a file, innermost first.
+ */
+function findNodeModulesDirs(fromFile: string): string[] {
+    const dirs: string[] = [];
+    let dir = path.dirname(path.resolve(fromFile));
+    while (true) {
+        const candidate = path.join(dir, 'node_modules');
+        if (isDirectory(candidate)) dirs.push(candidate);
+
+        const parent = path.dirname(dir);
+        if (parent === dir) return dirs;
+        dir = parent;
+    }
+}
+
+/**
+ * Resolve a bare specifier to a file in node_modules, using `exports`
+ * when the package has it and `module`/`main`/`types` otherwise.
+ * Type-only packages are found under `@types`.
+ */
+export function resolvePackageImport(specifier: string, fromFile: string): string | null {
+    const { name, subpath } = splitPackageSpecifier(specifier);
+
+    for (const nodeModules of findNodeModulesDirs(fromFile)) {
+        const typesName = name.startsWith('@') ? name.slice(1).replace('/', '__') : name;
+        for (const packageDir of [path.join(nodeModules, name), path.join(nodeModules, '@types', typesName)]) {
+            const manifestPath = path.join(packageDir, 'package.json');
+            if (!isFile(manifestPath)) continue;
+
+            let manifest: Record<string, unknown> = {};
+            try {
+                manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as Record<string, unknown>;
+            } catch {
+                // An unreadable manifest still lets index and subpath files resolve.
+            }
+
+            if (manifest.exports !== undefined) {
+                const target = resolvePackageExports(manifest.exports, subpath);
+                const resolved = target ? resolveFile(path.resolve(packageDir, target)) : null;
+                if (resolved) return resolved;
+                continue;
+            }
+
+            if (subpath !== '.') {
+                const resolved = resolveFile(path.join(packageDir, subpath));
+                if (resolved) return resolved;
+                continue;
+            }
+
+            for (const field of ['module', 'main', 'types', 'typings']) {
+                const entry = manifest[field];
+                const resolved = typeof entry === 'string' ? resolveFile(path.resolve(packageDir, entry)) : null;
+                if (resolved) return resolved;
+            }
+
+            const index = resolveFile(path.join(packageDir, 'index'));
+            if (index) return index;
+        }
+    }
+
+    return null;
+}
+
+function isBuiltinModule(specifier: string): boolean {
+    return specifier.startsWith('node:') || builtinModules.includes(specifier.split('/')[0]);
+}
+
+/**
+ * Resolve an aliased specifier (zenith.config.* alias or tsconfig
+ * `paths`/`baseUrl`) to a file, or null when no alias resolves it.
+ */
+export function resolveAliasedImport(specifier: string, fromFile: string): string | null {
+    const config = getZenithConfigFor(fromFile);
+    const configTarget = config ? resolveConfigAlias(config, specifier) : null;
+    const configResolved = configTarget ? resolveFile(configTarget) : null;
+    if (configResolved) return configResolved;
+
+    const tsconfig = readTsconfigPaths(fromFile);
+    if (!tsconfig) return null;
+
+    for (const target of getTsconfigPathTargets(tsconfig, specifier)) {
+        const resolved = resolveFile(target);
+        if (resolved) return resolved;
+    }
+
+    return tsconfig.baseUrl ? resolveFile(path.join(tsconfig.baseUrl, specifier)) : null;
+}
+
+/**
+ * Resolve an import specifier written in `fromFile`, or null when nothing
+ * it could refer to exists. Root-absolute specifiers (`/styles/app.css`)
+ * are relative to the project root.
+ */
+export function resolveImport(specifier: string, fromFile: string, projectRoot?: string | null): ModuleResolution | null {
+    const cleaned = stripImportSuffix(specifier);
+
+    if (resolveModule(cleaned).kind !== 'external') {
+        return { kind: 'virtual' };
+    }
+    if (isBuiltinModule(cleaned)) {
+        return { kind: 'builtin' };
+    }
+
+    if (cleaned.startsWith('.') || cleaned.startsWith('/')) {
+        const target = cleaned.startsWith('/')
+            ? path.join(projectRoot ?? path.dirname(fromFile), cleaned)
+            : path.resolve(path.dirname(fromFile), cleaned);
+        const resolved = resolveFile(target) ?? (cleaned.startsWith('/') ? resolveFile(cleaned) : null);
+        return resolved ? { kind: 'file', filePath: resolved } : null;
+    }
+
+    const aliased = resolveAliasedImport(cleaned, fromFile);
+    if (aliased) {
+        return { kind: 'file', filePath: aliased };
+    }
+
+    const packageFile = resolvePackageImport(cleaned, fromFile);
+    return packageFile ? { kind: 'package', filePath: packageFile } : null;
+}
+
+/**
+ * Whether a document's scripts import `targetPath`: an import resolves to
+ * it, or is unresolved and names a file with the same basename (the
+ * target was just deleted).
+ */
+export function importsFile(doc: ZenDocument, filePath: string, projectRoot: string | null, targetPath: string): boolean {
+    return doc.scripts.some((block) => parseZenithImports(block.content).some((imp) => {
+        const resolution = resolveImport(imp.module, filePath, projectRoot);
+        if (resolution) {
+            return resolution.filePath === targetPath;
+        }
+        return path.basename(stripImportSuffix(imp.module)) === path.basename(targetPath);
+    }));
+}
+
+function getPackageMessage(specifier: string): string {
+    const { name, subpath } = splitPackageSpecifier(specifier);
+    return subpath === '.'
+        ? `Cannot find package '${name}'. Is it installed?`
+        : `Cannot resolve '${subpath}' in package '${name}'.`;
+}
+
+/**
+ * Imports in a document's scripts that resolve to nothing. Package
+ * imports are only checked once node_modules exists, so projects that
+ * are not installed yet are not flooded with warnings; bare CSS imports
+ * are left to the CSS contract.
+ */
+export function collectUnresolvedImportDiagnostics(
+    document: ZenithTextDocumentLike,
+    doc: ZenDocument,
+    filePath: string,
+    projectRoot: string | null
+): ZenithDiagnostic[] {
+    const diagnostics: ZenithDiagnostic[] = [];
+    let installed: boolean | null = null;
+
+    for (const block of doc.scripts) {
+        for (const imp of parseZenithImports(block.content)) {
+            const specifier = imp.module;
+            const isPath = specifier.startsWith('.') || specifier.startsWith('/');
+            if (!isPath && isCssContractImportSpecifier(specifier) && !isLocalCssSpecifier(specifier)) continue;
+            if (resolveImport(specifier, filePath, projectRoot)) continue;
+
+            const isPackage = !isPath && !resolveAliasedImport(specifier, filePath) && !/^[@~#]\//.test(specifier);
+            if (isPackage) {
+                installed ??= findNodeModulesDirs(filePath).length > 0;
+                if (!installed) continue;
+            }
+
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: {
+                    start: document.positionAt(block.contentStart + imp.moduleStart),
+                    end: document.positionAt(block.contentStart + imp.moduleEnd)
+                },
+                message: isPackage ? getPackageMessage(specifier) : `Cannot resolve import '${specifier}'.`,
+                source: 'zenith',
+                code: UNRESOLVED_IMPORT_DIAGNOSTIC_CODE
+            });
+        }
+    }
+
+    return diagnostics;
+}
+
+function listDirectory(dir: string): fs.Dirent[] {
+    try {
+        return fs.readdirSync(dir, { withFileTypes: true })
+            .filter((entry) => !entry.name.startsWith('.') && entry.name !== 'node_modules')
+            .sort((a, b) => a.name.localeCompare(b.name));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Import path completions beyond Zenith modules, for the import string
+ * being typed before `offset`: directory entries for relative and aliased
+ * paths, and alias prefixes and dependency names otherwise.
+ */
+export function getImportPathCompletions(
+    document: ZenithTextDocumentLike,
+    offset: number,
+    filePath: string
+): ZenithImportPathCompletionItem[] {
+    const text = document.getText();
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    const match = /(?:from\s+|import\s+|import\s*\(\s*)(['"])([^'"]*)$/.exec(text.slice(lineStart, offset));
+    if (!match) {
+        return [];
+    }
+
+    const typed = match[2];
+    const start = offset - typed.length;
+    const range = { start: document.positionAt(start), end: document.positionAt(offset) };
+    const items: ZenithImportPathCompletionItem[] = [];
+    const add = (label: string, newText: string, kind: number, detail: string) => {
+        items.push({ label, kind, detail, filterText: newText, sortText: `${kind === CompletionItemKind.Folder ? 0 : 1}_${label}`, textEdit: { range, newText } });
+    };
+
+    const slash = typed.lastIndexOf('/');
+    const dirPart = slash >= 0 ? typed.slice(0, slash + 1) : '';
+
+    // Directory of the typed path: relative, or behind an alias.
+    let dir: string | null = null;
+    if (typed.startsWith('.')) {
+        dir = path.resolve(path.dirname(filePath), dirPart || '.');
+    } else if (dirPart) {
+        const config = getZenithConfigFor(filePath);
+        const tsconfig = readTsconfigPaths(filePath);
+        dir = (config && resolveConfigAlias(config, dirPart.slice(0, -1))) ??
+            (tsconfig ? getTsconfigPathTargets(tsconfig, `${dirPart}x`).map((target) => path.dirname(target)).find(isDirectory) ?? null : null);
+    }
+
+    if (dir) {
+        for (const entry of listDirectory(dir)) {
+            if (entry.isDirectory()) {
+                add(`${entry.name}/`, `${dirPart}${entry.name}/`, CompletionItemKind.Folder, 'directory');
+            } else if (SOURCE_EXTENSIONS.some((extension) => entry.name.endsWith(extension)) && path.join(dir, entry.name) !== filePath) {
+                // Script modules are imported without their extension.
+                const name = entry.name.replace(/\.(?:ts|tsx|mts|js|jsx|mjs)$/, '');
+                add(entry.name, `${dirPart}${name}`, CompletionItemKind.File, path.relative(path.dirname(filePath), path.join(dir, entry.name)));
+            }
+        }
+        return items;
+    }
+
+    if (typed.startsWith('/')) {
+        return items;
+    }
+
+    // Alias prefixes from zenith.config.* and tsconfig paths.
+    const aliases = new Set<string>();
+    for (const alias of Object.keys(getZenithConfigFor(filePath)?.aliases ?? {})) {
+        aliases.add(`${alias.replace(/\/$/, '')}/`);
+    }
+    for (const pattern of Object.keys(readTsconfigPaths(filePath)?.paths ?? {})) {
+        aliases.add(pattern.replace(/\*.*$/, ''));
+    }
+    for (const alias of aliases) {
+        if (alias) add(alias, alias, CompletionItemKind.Folder, 'path alias');
+    }
+
+    // Dependencies of the nearest package.json.
+    let manifestDir = path.dirname(filePath);
+    while (!isFile(path.join(manifestDir, 'package.json')) && path.dirname(manifestDir) !== manifestDir) {
+        manifestDir = path.dirname(manifestDir);
+    }
+    try {
+        const manifest = JSON.parse(fs.readFileSync(path.join(manifestDir, 'package.json'), 'utf-8')) as Record<string, Record<string, string> | undefined>;
+        const names = new Set([...Object.keys(manifest.dependencies ?? {}), ...Object.keys(manifest.devDependencies ?? {})]);
+        for (const name of names) {
+            add(name, name, CompletionItemKind.Module, 'package');
+        }
+    } catch {
+        // No package.json: aliases only.
+    }
+
+    return items;
+}
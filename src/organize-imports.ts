@@ -0,0 +1,200 @@
+/**
+ * Organize Imports
+ *
+ * The `source.organizeImports` action for .zen scripts. In each <script>
+ * block, imports are:
+ * - grouped as zenith core, zenith:* plugins, external packages, then
+ *   local files and CSS, with a blank line between groups
+ * - sorted by module within a group and by name within a statement
+ * - merged when several import from the same module
+ * - pruned of bindings the script and template never reference
+ *
+ * The organized block replaces the first import; the other import
+ * statements are removed. Side-effect imports (`import './app.css'`) are
+ * always kept.
+ */
+
+import { parseZenithImports, type ParsedImport, type ParsedImportSpecifier } from './imports';
+import { getParsedDocument } from './parser';
+import { collectSymbolReferences, getLineRange } from './unused-symbols';
+import type { ZenithCodeAction } from './code-actions';
+import type { ZenithTextDocumentLike } from './diagnostics';
+import type { ZenithTextEdit } from './auto-import';
+
+export const ORGANIZE_IMPORTS_KIND = 'source.organizeImports';
+
+type ImportGroup = 0 | 1 | 2 | 3;
+
+/**
+ * Group of a module: zenith core, zenith:* plugin, package, local/CSS.
+ */
+export function getImportGroup(moduleName: string): ImportGroup {
+    if (moduleName === 'zenith' || moduleName.startsWith('zenith/')) return 0;
+    if (moduleName.startsWith('zenith:')) return 1;
+    if (moduleName.startsWith('.') || moduleName.startsWith('/') || moduleName.endsWith('.css')) return 3;
+    return 2;
+}
+
+interface MergedImport {
+    module: string;
+    isType: boolean;
+    sideEffect: boolean;
+    defaultImport?: string;
+    namespaceImport?: string;
+    named: ParsedImportSpecifier[];
+}
+
+function mergeImports(script: string, imports: ParsedImport[], used: Set<string>): MergedImport[] {
+    const merged = new Map<string, MergedImport>();
+
+    const get = (module: string, isType: boolean, key: string): MergedImport => {
+        let entry = merged.get(key);
+        if (!entry) {
+            entry = { module, isType, sideEffect: false, named: [] };
+            merged.set(key, entry);
+        }
+        return entry;
+    };
+
+    for (const imp of imports) {
+        const sideEffect = /^import\s*['"]/.test(script.slice(imp.start, imp.end));
+        const key = `${imp.isType ? 'type ' : ''}${imp.module}`;
+
+        if (!imp.defaultImport && !imp.namespaceImport && imp.named.length === 0) {
+            // `import {} from 'x'` is dropped; a bare `import 'x'` has a side effect.
+            if (sideEffect) {
+                get(imp.module, false, `side-effect ${imp.module}`).sideEffect = true;
+            }
+            continue;
+        }
+
+        if (imp.namespaceImport && used.has(imp.namespaceImport)) {
+            // Namespace imports cannot share a statement with named imports.
+            get(imp.module, imp.isType, `${key} * as ${imp.namespaceImport}`).namespaceImport = imp.namespaceImport;
+        }
+
+        if (imp.defaultImport && used.has(imp.defaultImport)) {
+            const entry = get(imp.module, imp.isType, key);
+            if (!entry.defaultImport) {
+                entry.defaultImport = imp.defaultImport;
+            } else if (entry.defaultImport !== imp.defaultImport) {
+                get(imp.module, imp.isType, `${key} default ${imp.defaultImport}`).defaultImport = imp.defaultImport;
+            }
+        }
+
+        for (const specifier of imp.named) {
+            if (!used.has(specifier.local)) continue;
+
+            const entry = get(imp.module, imp.isType, key);
+            if (!entry.named.some((existing) => existing.local === specifier.local && existing.name === specifier.name)) {
+                entry.named.push(specifier);
+            }
+        }
+    }
+
+    return [...merged.values()].filter((entry) => entry.sideEffect || entry.defaultImport || entry.namespaceImport || entry.named.length > 0);
+}
+
+function formatImport(entry: MergedImport, quote: string, semicolon: string): string {
+    const from = `${quote}${entry.module}${quote}`;
+    if (entry.sideEffect) {
+        return `import ${from}${semicolon}`;
+    }
+
+    const parts: string[] = [];
+    if (entry.defaultImport) parts.push(entry.defaultImport);
+    if (entry.namespaceImport) parts.push(`* as ${entry.namespaceImport}`);
+    if (entry.named.length > 0) {
+        const named = [...entry.named]
+            .sort((a, b) => a.local.localeCompare(b.local, undefined, { sensitivity: 'base' }) || a.local.localeCompare(b.local))
+            .map((specifier) => `${specifier.isType ? 'type ' : ''}${specifier.name === specifier.local ? specifier.name : `${specifier.name} as ${specifier.local}`}`);
+        parts.push(`{ ${named.join(', ')} }`);
+    }
+
+    return `import ${entry.isType ? 'type ' : ''}${parts.join(', ')} from ${from}${semicolon}`;
+}
+
+function compareEntries(a: MergedImport, b: MergedImport): number {
+    return getImportGroup(a.module) - getImportGroup(b.module) ||
+        a.module.localeCompare(b.module) ||
+        Number(a.isType) - Number(b.isType) ||
+        Number(!!b.sideEffect) - Number(!!a.sideEffect);
+}
+
+/**
+ * Edits that organize the imports of every <script> block.
+ */
+export function organizeImports(document: ZenithTextDocumentLike): ZenithTextEdit[] {
+    const doc = getParsedDocument(document.uri, document.getText());
+    const imports = new Map(doc.scripts.map((block) => [block, parseZenithImports(block.content)] as const));
+    const used = new Set(collectSymbolReferences(doc).map((reference) => reference.name));
+    const edits: ZenithTextEdit[] = [];
+
+    for (const block of doc.scripts) {
+        const blockImports = imports.get(block) ?? [];
+        if (blockImports.length === 0) continue;
+
+        const code = block.content;
+        const first = blockImports[0];
+        const firstText = code.slice(first.start, first.end);
+        const quote = /["]/.test(firstText.slice(-3)) && !/[']/.test(firstText.slice(-3)) ? '"' : "'";
+        const semicolon = firstText.trimEnd().endsWith(';') ? ';' : '';
+        const firstLineStart = code.lastIndexOf('\n', first.start - 1) + 1;
+        const indent = code.slice(firstLineStart, first.start).match(/^[ \t]*/)?.[0] ?? '';
+
+        const entries = mergeImports(code, blockImports, used).sort(compareEntries);
+        const lines: string[] = [];
+        entries.forEach((entry, index) => {
+            if (index > 0 && getImportGroup(entry.module) !== getImportGroup(entries[index - 1].module)) {
+                lines.push('');
+            }
+            lines.push(`${indent}${formatImport(entry, quote, semicolon)}`);
+        });
+
+        const ranges = blockImports.map((imp) => getLineRange(code, imp.start, imp.end));
+        const organized = lines.map((line) => `${line}\n`).join('');
+        const regionStart = ranges[0].start;
+        const regionEnd = ranges[ranges.length - 1].end;
+        const region = code.slice(regionStart, regionEnd);
+
+        // Leave the block alone when it is already organized.
+        if (region === organized || region === organized.replace(/\n$/, '')) continue;
+
+        const toRange = (start: number, end: number) => ({
+            start: document.positionAt(block.contentStart + start),
+            end: document.positionAt(block.contentStart + end)
+        });
+
+        // Imports separated only by blank lines are replaced as one region;
+        // imports between other statements are removed one by one.
+        const between = ranges.map((range, index) => code.slice(range.end, ranges[index + 1]?.start ?? range.end)).join('');
+        if (/^\s*$/.test(between)) {
+            const newText = /\n$/.test(region) ? organized : organized.replace(/\n$/, '');
+            edits.push({ range: toRange(regionStart, regionEnd), newText });
+            continue;
+        }
+
+        ranges.forEach((range, index) => {
+            edits.push({ range: toRange(range.start, range.end), newText: index === 0 ? organized : '' });
+        });
+    }
+
+    return edits;
+}
+
+/**
+ * The organize-imports source action, or null when nothing would change.
+ */
+export function buildOrganizeImportsCodeAction(document: ZenithTextDocumentLike): ZenithCodeAction | null {
+    const edits = organizeImports(document);
+    if (edits.length === 0) {
+        return null;
+    }
+
+    return {
+        title: 'Organize Imports',
+        kind: ORGANIZE_IMPORTS_KIND,
+        diagnostics: [],
+        edit: { changes: { [document.uri]: edits } }
+    };
+}
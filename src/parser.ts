@@ -0,0 +1,868 @@
+/**
+ * Zenith Document Parser
+ *
+ * Tolerant parser that turns a .zen document into a positioned AST.
+ * Every provider and diagnostic pass consumes the same tree, so
+ * completion, hover and validation agree on document structure.
+ *
+ * Design:
+ * - Never throws; malformed input is recorded in `errors` and recovered from
+ * - All offsets are absolute offsets into the original text
+ * - Braces, strings and template literals inside expressions are balanced
+ * - <script> and <style> contents are raw text (not parsed as markup)
+ */
+
+export interface ZenSpan {
+    start: number;
+    end: number;
+}
+
+export type ZenAttributeKind = 'directive' | 'event' | 'binding' | 'attribute';
+
+export interface ZenAttribute extends ZenSpan {
+    name: string;
+    nameStart: number;
+    nameEnd: number;
+    kind: ZenAttributeKind;
+    /** Inner value (without quotes or braces), or null for boolean attributes. */
+    value: string | null;
+    valueStart: number;
+    valueEnd: number;
+    /** Delimiter used for the value: quote character, '{' for expressions, or null. */
+    quote: '"' | "'" | '{' | null;
+    /** False when the value delimiter was never closed. */
+    closed: boolean;
+}
+
+export interface ZenElement extends ZenSpan {
+    type: 'element';
+    tagName: string;
+    tagNameStart: number;
+    tagNameEnd: number;
+    attributes: ZenAttribute[];
+    children: ZenNode[];
+    parent: ZenElement | null;
+    isComponent: boolean;
+    selfClosing: boolean;
+    /** Offset just past the '>' of the start tag (or where the start tag was cut off). */
+    startTagEnd: number;
+    /** Offset of '</' of the matching end tag, or null if implicitly closed. */
+    endTagStart: number | null;
+    endTagNameStart: number | null;
+}
+
+export interface ZenText extends ZenSpan {
+    type: 'text';
+    parent: ZenElement | null;
+}
+
+export interface ZenExpression extends ZenSpan {
+    type: 'expression';
+    content: string;
+    contentStart: number;
+    contentEnd: number;
+    closed: boolean;
+    parent: ZenElement | null;
+}
+
+export interface ZenComment extends ZenSpan {
+    type: 'comment';
+    closed: boolean;
+    parent: ZenElement | null;
+}
+
+export interface ZenRawBlock extends ZenSpan {
+    type: 'script' | 'style';
+    attributes: ZenAttribute[];
+    /** Offset just past the '>' of the opening tag. */
+    startTagEnd: number;
+    content: string;
+    contentStart: number;
+    contentEnd: number;
+    closed: boolean;
+    parent: ZenElement | null;
+}
+
+export type ZenNode = ZenElement | ZenText | ZenExpression | ZenComment | ZenRawBlock;
+
+export interface ZenParseError extends ZenSpan {
+    message: string;
+}
+
+export interface ZenDocument {
+    text: string;
+    children: ZenNode[];
+    /** All elements in document order. */
+    elements: ZenElement[];
+    /** Template `{...}` expressions in text content, in document order. */
+    expressions: ZenExpression[];
+    scripts: ZenRawBlock[];
+    styles: ZenRawBlock[];
+    comments: ZenComment[];
+    errors: ZenParseError[];
+}
+
+const VOID_ELEMENTS = new Set([
+    'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+    'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+const TAG_NAME_PATTERN = /[A-Za-z][A-Za-z0-9:._-]*/y;
+
+/**
+ * Classify an attribute by its name.
+ */
+export function getAttributeKind(name: string): ZenAttributeKind {
+    if (name.startsWith('zen:')) return 'directive';
+    if (name.startsWith('on:')) return 'event';
+    if (name.startsWith(':')) return 'binding';
+    return 'attribute';
+}
+
+/**
+ * Check whether an attribute value holds a JavaScript expression.
+ */
+export function isExpressionAttribute(attribute: ZenAttribute): boolean {
+    return attribute.quote === '{' ||
+        attribute.kind === 'directive' ||
+        attribute.kind === 'event' ||
+        attribute.kind === 'binding';
+}
+
+function isWhitespace(ch: string): boolean {
+    return ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\f';
+}
+
+/**
+ * Skip a JS string or template literal starting at `index` (the opening quote).
+ * Returns the offset just past the closing quote, or text.length if unterminated.
+ */
+function skipJsString(text: string, index: number): number {
+    const quote = text[index];
+    let i = index + 1;
+
+    while (i < text.length) {
+        const ch = text[i];
+        if (ch === '\\') {
+            i += 2;
+            continue;
+        }
+        if (quote === '`' && ch === '$' && text[i + 1] === '{') {
+            const close = findClosingBrace(text, i + 1);
+            if (close < 0) return text.length;
+            i = close + 1;
+            continue;
+        }
+        if (ch === quote) {
+            return i + 1;
+        }
+        if (quote !== '`' && ch === '\n') {
+            return i;
+        }
+        i++;
+    }
+
+    return text.length;
+}
+
+/**
+ * Find the '}' balancing the '{' at `openIndex`, honoring strings,
+ * template literals and comments. Returns -1 when the brace is not closed,
+ * or when an end tag ('</') is reached first (the user is still typing).
+ */
+export function findClosingBrace(text: string, openIndex: number): number {
+    let depth = 0;
+    let i = openIndex;
+
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (ch === '"' || ch === "'" || ch === '`') {
+            i = skipJsString(text, i);
+            continue;
+        }
+
+        if (ch === '/' && text[i + 1] === '/') {
+            const newline = text.indexOf('\n', i);
+            i = newline < 0 ? text.length : newline;
+            continue;
+        }
+
+        if (ch === '/' && text[i + 1] === '*') {
+            const close = text.indexOf('*/', i + 2);
+            i = close < 0 ? text.length : close + 2;
+            continue;
+        }
+
+        if (ch === '<' && text[i + 1] === '/') {
+            return -1;
+        }
+
+        if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+
+        i++;
+    }
+
+    return -1;
+}
+
+class Parser {
+    private readonly text: string;
+    private pos = 0;
+    private readonly doc: ZenDocument;
+    private readonly stack: ZenElement[] = [];
+
+    constructor(text: string) {
+        this.text = text;
+        this.doc = {
+            text,
+            children: [],
+            elements: [],
+            expressions: [],
+            scripts: [],
+            styles: [],
+            comments: [],
+            errors: []
+        };
+    }
+
+    parse(): ZenDocument {
+        const text = this.text;
+        let textStart = 0;
+
+        while (this.pos < text.length) {
+            const ch = text[this.pos];
+
+            if (ch === '<' && text.startsWith('<!--', this.pos)) {
+                this.flushText(textStart, this.pos);
+                this.parseComment();
+                textStart = this.pos;
+                continue;
+            }
+
+            if (ch === '<' && text[this.pos + 1] === '/' && /[A-Za-z]/.test(text[this.pos + 2] || '')) {
+                this.flushText(textStart, this.pos);
+                this.parseEndTag();
+                textStart = this.pos;
+                continue;
+            }
+
+            if (ch === '<' && /[A-Za-z]/.test(text[this.pos + 1] || '')) {
+                this.flushText(textStart, this.pos);
+                this.parseStartTag();
+                textStart = this.pos;
+                continue;
+            }
+
+            if (ch === '{') {
+                this.flushText(textStart, this.pos);
+                this.parseExpression();
+                textStart = this.pos;
+                continue;
+            }
+
+            this.pos++;
+        }
+
+        this.flushText(textStart, this.pos);
+
+        while (this.stack.length > 0) {
+            const element = this.stack.pop()!;
+            element.end = text.length;
+            this.doc.errors.push({
+                start: element.tagNameStart,
+                end: element.tagNameEnd,
+                message: `Unclosed element <${element.tagName}>`
+            });
+        }
+
+        return this.doc;
+    }
+
+    private get parent(): ZenElement | null {
+        return this.stack.length > 0 ? this.stack[this.stack.length - 1] : null;
+    }
+
+    private append(node: ZenNode): void {
+        const parent = this.parent;
+        if (parent) {
+            parent.children.push(node);
+        } else {
+            this.doc.children.push(node);
+        }
+    }
+
+    private flushText(start: number, end: number): void {
+        if (end > start) {
+            this.append({ type: 'text', start, end, parent: this.parent });
+        }
+    }
+
+    private parseComment(): void {
+        const start = this.pos;
+        const close = this.text.indexOf('-->', start + 4);
+        const closed = close >= 0;
+        const end = closed ? close + 3 : this.text.length;
+        const comment: ZenComment = { type: 'comment', start, end, closed, parent: this.parent };
+
+        if (!closed) {
+            this.doc.errors.push({ start, end: start + 4, message: 'Unclosed comment' });
+        }
+
+        this.append(comment);
+        this.doc.comments.push(comment);
+        this.pos = end;
+    }
+
+    private parseExpression(): void {
+        const start = this.pos;
+        const close = findClosingBrace(this.text, start);
+        const closed = close >= 0;
+        const contentEnd = closed ? close : this.findExpressionRecoveryEnd(start + 1);
+        const end = closed ? close + 1 : contentEnd;
+
+        const expression: ZenExpression = {
+            type: 'expression',
+            start,
+            end,
+            content: this.text.slice(start + 1, contentEnd),
+            contentStart: start + 1,
+            contentEnd,
+            closed,
+            parent: this.parent
+        };
+
+        if (!closed) {
+            this.doc.errors.push({ start, end: start + 1, message: 'Unclosed expression' });
+        }
+
+        this.append(expression);
+        this.doc.expressions.push(expression);
+        this.pos = end;
+    }
+
+    /**
+     * For an unclosed expression, stop at the next end tag so the rest of
+     * the template still parses.
+     */
+    private findExpressionRecoveryEnd(from: number): number {
+        const endTag = this.text.indexOf('</', from);
+        return endTag < 0 ? this.text.length : endTag;
+    }
+
+    private readTagName(at: number): string {
+        TAG_NAME_PATTERN.lastIndex = at;
+        const match = TAG_NAME_PATTERN.exec(this.text);
+        return match ? match[0] : '';
+    }
+
+    private parseEndTag(): void {
+        const start = this.pos;
+        const nameStart = start + 2;
+        const tagName = this.readTagName(nameStart);
+        const close = this.text.indexOf('>', nameStart + tagName.length);
+        const nextOpen = this.text.indexOf('<', nameStart + tagName.length);
+        const end = close >= 0 && (nextOpen < 0 || close < nextOpen) ? close + 1 : nameStart + tagName.length;
+        this.pos = end;
+
+        for (let i = this.stack.length - 1; i >= 0; i--) {
+            if (this.stack[i].tagName === tagName) {
+                while (this.stack.length - 1 > i) {
+                    const unclosed = this.stack.pop()!;
+                    unclosed.end = start;
+                    this.doc.errors.push({
+                        start: unclosed.tagNameStart,
+                        end: unclosed.tagNameEnd,
+                        message: `Unclosed element <${unclosed.tagName}>`
+                    });
+                }
+                const element = this.stack.pop()!;
+                element.endTagStart = start;
+                element.endTagNameStart = nameStart;
+                element.end = end;
+                return;
+            }
+        }
+
+        this.doc.errors.push({
+            start,
+            end,
+            message: `Unexpected closing tag </${tagName}>`
+        });
+    }
+
+    private parseStartTag(): void {
+        const start = this.pos;
+        const tagNameStart = start + 1;
+        const tagName = this.readTagName(tagNameStart);
+        const tagNameEnd = tagNameStart + tagName.length;
+        this.pos = tagNameEnd;
+
+        const { attributes, selfClosing, closed } = this.parseAttributes();
+        const startTagEnd = this.pos;
+
+        if (!closed) {
+            this.doc.errors.push({
+                start,
+                end: tagNameEnd,
+                message: `Unterminated start tag <${tagName}>`
+            });
+        }
+
+        const lowerName = tagName.toLowerCase();
+        if ((lowerName === 'script' || lowerName === 'style') && !selfClosing) {
+            this.parseRawBlock(lowerName, start, startTagEnd, attributes);
+            return;
+        }
+
+        const element: ZenElement = {
+            type: 'element',
+            tagName,
+            tagNameStart,
+            tagNameEnd,
+            attributes,
+            children: [],
+            parent: this.parent,
+            isComponent: /^[A-Z]/.test(tagName),
+            selfClosing,
+            start,
+            end: startTagEnd,
+            startTagEnd,
+            endTagStart: null,
+            endTagNameStart: null
+        };
+
+        this.append(element);
+        this.doc.elements.push(element);
+
+        // Components are never void, even when named like one (<Input>).
+        if (!selfClosing && (element.isComponent || !VOID_ELEMENTS.has(lowerName))) {
+            this.stack.push(element);
+        }
+    }
+
+    private parseRawBlock(
+        type: 'script' | 'style',
+        start: number,
+        startTagEnd: number,
+        attributes: ZenAttribute[]
+    ): void {
+        const closePattern = new RegExp(`</${type}\\s*>`, 'ig');
+        closePattern.lastIndex = startTagEnd;
+        const closeMatch = closePattern.exec(this.text);
+        const closed = !!closeMatch;
+        const contentEnd = closeMatch ? closeMatch.index : this.text.length;
+        const end = closeMatch ? closeMatch.index + closeMatch[0].length : this.text.length;
+
+        const block: ZenRawBlock = {
+            type,
+            start,
+            end,
+            attributes,
+            startTagEnd,
+            content: this.text.slice(startTagEnd, contentEnd),
+            contentStart: startTagEnd,
+            contentEnd,
+            closed,
+            parent: this.parent
+        };
+
+        if (!closed) {
+            this.doc.errors.push({ start, end: startTagEnd, message: `Unclosed <${type}> block` });
+        }
+
+        this.append(block);
+        if (type === 'script') {
+            this.doc.scripts.push(block);
+        } else {
+            this.doc.styles.push(block);
+        }
+        this.pos = end;
+    }
+
+    private parseAttributes(): { attributes: ZenAttribute[]; selfClosing: boolean; closed: boolean } {
+        const text = this.text;
+        const attributes: ZenAttribute[] = [];
+
+        while (this.pos < text.length) {
+            const ch = text[this.pos];
+
+            if (isWhitespace(ch)) {
+                this.pos++;
+                continue;
+            }
+
+            if (ch === '>') {
+                this.pos++;
+                return { attributes, selfClosing: false, closed: true };
+            }
+
+            if (ch === '/' && text[this.pos + 1] === '>') {
+                this.pos += 2;
+                return { attributes, selfClosing: true, closed: true };
+            }
+
+            // A new tag begins before this one was closed (user is typing).
+            if (ch === '<') {
+                return { attributes, selfClosing: false, closed: false };
+            }
+
+            if (ch === '/') {
+                this.pos++;
+                continue;
+            }
+
+            attributes.push(this.parseAttribute());
+        }
+
+        return { attributes, selfClosing: false, closed: false };
+    }
+
+    private parseAttribute(): ZenAttribute {
+        const text = this.text;
+        const start = this.pos;
+
+        // Bare `{expr}` attribute (spread or shorthand)
+        if (text[start] === '{') {
+            const close = findClosingBrace(text, start);
+            const closed = close >= 0;
+            const valueEnd = closed ? close : this.findAttributeRecoveryEnd(start + 1);
+            this.pos = closed ? close + 1 : valueEnd;
+            return {
+                name: '',
+                nameStart: start,
+                nameEnd: start,
+                kind: 'attribute',
+                value: text.slice(start + 1, valueEnd),
+                valueStart: start + 1,
+                valueEnd,
+                quote: '{',
+                closed,
+                start,
+                end: this.pos
+            };
+        }
+
+        while (this.pos < text.length && !/[\s=>"'{<]/.test(text[this.pos]) &&
+            !(text[this.pos] === '/' && text[this.pos + 1] === '>')) {
+            this.pos++;
+        }
+
+        const nameStart = start;
+        const nameEnd = this.pos;
+        const name = text.slice(nameStart, nameEnd);
+        const attribute: ZenAttribute = {
+            name,
+            nameStart,
+            nameEnd,
+            kind: getAttributeKind(name),
+            value: null,
+            valueStart: -1,
+            valueEnd: -1,
+            quote: null,
+            closed: true,
+            start,
+            end: nameEnd
+        };
+
+        // Guard against stray characters that cannot start or continue a name.
+        if (nameEnd === nameStart) {
+            this.pos++;
+            attribute.end = this.pos;
+            return attribute;
+        }
+
+        let cursor = this.pos;
+        while (cursor < text.length && isWhitespace(text[cursor])) cursor++;
+        if (text[cursor] !== '=') {
+            return attribute;
+        }
+
+        cursor++;
+        while (cursor < text.length && isWhitespace(text[cursor])) cursor++;
+        const delimiter = text[cursor];
+
+        if (delimiter === '"' || delimiter === "'") {
+            const close = text.indexOf(delimiter, cursor + 1);
+            const nextTagEnd = this.findAttributeRecoveryEnd(cursor + 1);
+            const closed = close >= 0 && close <= nextTagEnd;
+            const valueEnd = closed ? close : nextTagEnd;
+            attribute.quote = delimiter;
+            attribute.valueStart = cursor + 1;
+            attribute.valueEnd = valueEnd;
+            attribute.value = text.slice(cursor + 1, valueEnd);
+            attribute.closed = closed;
+            this.pos = closed ? close + 1 : valueEnd;
+        } else if (delimiter === '{') {
+            const close = findClosingBrace(text, cursor);
+            const closed = close >= 0;
+            const valueEnd = closed ? close : this.findAttributeRecoveryEnd(cursor + 1);
+            attribute.quote = '{';
+            attribute.valueStart = cursor + 1;
+            attribute.valueEnd = valueEnd;
+            attribute.value = text.slice(cursor + 1, valueEnd);
+            attribute.closed = closed;
+            this.pos = closed ? close + 1 : valueEnd;
+        } else {
+            let end = cursor;
+            while (end < text.length && !/[\s>]/.test(text[end]) &&
+                !(text[end] === '/' && text[end + 1] === '>')) {
+                end++;
+            }
+            attribute.valueStart = cursor;
+            attribute.valueEnd = end;
+            attribute.value = text.slice(cursor, end);
+            this.pos = end;
+        }
+
+        if (!attribute.closed) {
+            this.doc.errors.push({
+                start: attribute.nameStart,
+                end: attribute.nameEnd,
+                message: `Unterminated value for attribute '${name}'`
+            });
+        }
+
+        attribute.end = this.pos;
+        return attribute;
+    }
+
+    /**
+     * For an unterminated attribute value, stop at the end of the current
+     * line so subsequent markup still parses.
+     */
+    private findAttributeRecoveryEnd(from: number): number {
+        const newline = this.text.indexOf('\n', from);
+        return newline < 0 ? this.text.length : newline;
+    }
+}
+
+/**
+ * Parse a .zen document into a positioned AST.
+ */
+export function parseZenDocument(text: string): ZenDocument {
+    return new Parser(text).parse();
+}
+
+const documentCache = new Map<string, { text: string; doc: ZenDocument }>();
+const DOCUMENT_CACHE_LIMIT = 64;
+
+/**
+ * Parse a document, reusing the previous tree when the text is unchanged.
+ * Keyed by URI so completion, hover and diagnostics share one parse.
+ */
+export function getParsedDocument(uri: string, text: string): ZenDocument {
+    const cached = documentCache.get(uri);
+    if (cached && cached.text === text) {
+        return cached.doc;
+    }
+
+    const doc = parseZenDocument(text);
+    documentCache.delete(uri);
+    documentCache.set(uri, { text, doc });
+
+    if (documentCache.size > DOCUMENT_CACHE_LIMIT) {
+        const oldest = documentCache.keys().next().value;
+        if (oldest !== undefined) documentCache.delete(oldest);
+    }
+
+    return doc;
+}
+
+/**
+ * Walk every node in document order.
+ */
+export function walkNodes(nodes: ZenNode[], visit: (node: ZenNode) => void): void {
+    for (const node of nodes) {
+        visit(node);
+        if (node.type === 'element') {
+            walkNodes(node.children, visit);
+        }
+    }
+}
+
+/**
+ * Get the combined content of all script blocks (newline separated).
+ */
+export function getScriptContent(doc: ZenDocument): string {
+    return doc.scripts.map((block) => block.content).join('\n');
+}
+
+export interface ZenNodeAtOffset {
+    /** Innermost node containing the offset. */
+    node: ZenNode | null;
+    /** Innermost element whose start tag or body contains the offset. */
+    element: ZenElement | null;
+    /** Set when the offset is inside an element's start tag. */
+    inStartTag: boolean;
+    /** Set when the offset is inside an attribute of a start tag. */
+    attribute: ZenAttribute | null;
+    /** Set when the offset is inside an attribute value (between delimiters). */
+    inAttributeValue: boolean;
+}
+
+function contains(span: ZenSpan, offset: number): boolean {
+    return offset >= span.start && offset < span.end;
+}
+
+function isInsideValue(attribute: ZenAttribute, offset: number): boolean {
+    if (attribute.valueStart < 0) return false;
+    if (attribute.closed) {
+        return offset >= attribute.valueStart && offset <= attribute.valueEnd;
+    }
+    return offset >= attribute.valueStart;
+}
+
+function findAttributeAt(attributes: ZenAttribute[], offset: number): ZenAttribute | null {
+    for (const attribute of attributes) {
+        if (offset >= attribute.start && offset <= attribute.end) {
+            return attribute;
+        }
+    }
+    return null;
+}
+
+/**
+ * Find the node at an offset. Offsets at the end of an unterminated
+ * construct count as inside it, which is where the cursor sits while typing.
+ */
+export function findNodeAt(doc: ZenDocument, offset: number): ZenNodeAtOffset {
+    const result: ZenNodeAtOffset = {
+        node: null,
+        element: null,
+        inStartTag: false,
+        attribute: null,
+        inAttributeValue: false
+    };
+
+    let nodes = doc.children;
+    let descended = true;
+
+    while (descended) {
+        descended = false;
+        for (const node of nodes) {
+            const openEnded = node.type !== 'text' && node.end === offset && !isNodeClosed(node);
+            if (!contains(node, offset) && !openEnded) {
+                continue;
+            }
+
+            result.node = node;
+
+            if (node.type === 'element') {
+                result.element = node;
+                const inStartTag = offset > node.start && (offset < node.startTagEnd ||
+                    (offset === node.startTagEnd && !isStartTagClosed(node, doc.text)));
+                if (inStartTag) {
+                    result.inStartTag = true;
+                    const attribute = findAttributeAt(node.attributes, offset);
+                    result.attribute = attribute;
+                    result.inAttributeValue = !!attribute && isInsideValue(attribute, offset);
+                    return result;
+                }
+                nodes = node.children;
+                descended = true;
+            } else if (node.type === 'script' || node.type === 'style') {
+                if (offset < node.startTagEnd) {
+                    result.inStartTag = true;
+                    result.attribute = findAttributeAt(node.attributes, offset);
+                    result.inAttributeValue = !!result.attribute && isInsideValue(result.attribute, offset);
+                }
+                return result;
+            }
+            break;
+        }
+    }
+
+    return result;
+}
+
+function isStartTagClosed(element: ZenElement, text: string): boolean {
+    return text[element.startTagEnd - 1] === '>';
+}
+
+function isNodeClosed(node: ZenNode): boolean {
+    switch (node.type) {
+        case 'element':
+            return node.endTagStart !== null || node.selfClosing;
+        case 'expression':
+        case 'comment':
+        case 'script':
+        case 'style':
+            return node.closed;
+        default:
+            return true;
+    }
+}
+
+/**
+ * Find the raw block (script or style) whose content contains the offset.
+ */
+export function findRawBlockAt(doc: ZenDocument, offset: number): ZenRawBlock | null {
+    for (const block of [...doc.scripts, ...doc.styles]) {
+        if (offset >= block.contentStart && offset <= block.contentEnd) {
+            return block;
+        }
+    }
+    return null;
+}
+
+/**
+ * Get the template expression (text expression or `{}` attribute value)
+ * containing the offset.
+ */
+export function findExpressionAt(doc: ZenDocument, offset: number): { content: string; contentStart: number; contentEnd: number } | null {
+    for (const expression of doc.expressions) {
+        if (offset >= expression.contentStart && offset <= expression.contentEnd) {
+            return expression;
+        }
+    }
+
+    for (const element of doc.elements) {
+        if (offset < element.start || offset > element.startTagEnd) continue;
+        for (const attribute of element.attributes) {
+            if (attribute.quote === '{' && offset >= attribute.valueStart && offset <= attribute.valueEnd) {
+                return { content: attribute.value || '', contentStart: attribute.valueStart, contentEnd: attribute.valueEnd };
+            }
+        }
+    }
+
+    return null;
+}
+
+export interface ZenCodeSpan {
+    code: string;
+    /** Absolute offset of the first character of `code`. */
+    start: number;
+    /** Element that owns the code (for scope resolution), or null at top level. */
+    element: ZenElement | null;
+}
+
+/**
+ * Get every piece of template code: `{...}` expressions in text and the
+ * values of expression-bearing attributes (directives, events, bindings,
+ * `{}` values), in document order.
+ */
+export function getTemplateCodeSpans(doc: ZenDocument): ZenCodeSpan[] {
+    const spans: ZenCodeSpan[] = [];
+
+    for (const expression of doc.expressions) {
+        spans.push({ code: expression.content, start: expression.contentStart, element: expression.parent });
+    }
+
+    for (const element of doc.elements) {
+        for (const attribute of element.attributes) {
+            if (attribute.value !== null && isExpressionAttribute(attribute)) {
+                spans.push({ code: attribute.value, start: attribute.valueStart, element });
+            }
+        }
+    }
+
+    return spans.sort((a, b) => a.start - b.start);
+}
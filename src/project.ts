@@ -8,27 +8,40 @@
 import * as fs from 'fs';
 import * as path from 'path';
 
+import { extractComponentProps, type ComponentProp } from './component-props';
+import { getZenithConfigFor, readZenithConfig, resolveConfigAlias, ZENITH_CONFIG_CANDIDATES } from './config';
+import { buildRouteTable, compareRoutes, getPageKey, type ZenithRoute } from './routes';
+import { collectScriptSymbols } from './script-symbols';
+import type { ZenDocument } from './parser';
+
 export interface ComponentInfo {
     name: string;
     filePath: string;
     type: 'layout' | 'component' | 'page';
-    props: string[];
+    props: ComponentProp[];
 }
 
 export interface ProjectGraph {
     root: string;
     layouts: Map<string, ComponentInfo>;
     components: Map<string, ComponentInfo>;
+    /** Keyed by path under the pages directory (`blog/[slug]`). */
     pages: Map<string, ComponentInfo>;
+    routes: ZenithRoute[];
 }
 
-const ZENITH_CONFIG_CANDIDATES = [
-    'zenith.config.ts',
-    'zenith.config.js',
-    'zenith.config.mjs',
-    'zenith.config.cjs',
-    'zenith.config.json'
-];
+export type ProjectFileChangeType = 'created' | 'changed' | 'deleted';
+
+/**
+ * What a single file event did to a project graph.
+ */
+export interface ProjectGraphChange {
+    /** The added, updated or removed entry. */
+    entry: ComponentInfo;
+    change: ProjectFileChangeType;
+    /** Whether the route table changed (pages added or removed, or page layouts). */
+    routesChanged: boolean;
+}
 
 function hasZenithConfig(dir: string): boolean {
     return ZENITH_CONFIG_CANDIDATES.some((fileName) => fs.existsSync(path.join(dir, fileName)));
@@ -175,44 +188,48 @@ export function detectProjectRoot(startPath: string, workspaceFolders: string[]
 }
 
 /**
- * Extract props from a .zen file
- * Infers props from usage patterns (Astro/Vue style)
+ * Read the props a layout or component accepts (pages take none).
  */
-function extractPropsFromFile(filePath: string): string[] {
-    try {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const props: string[] = [];
-
-        // Look for Props interface/type
-        const propsMatch = content.match(/(?:interface|type)\s+Props\s*[={]\s*\{([^}]+)\}/);
-        if (propsMatch && propsMatch[1]) {
-            const propNames = propsMatch[1].match(/([a-zA-Z_$][a-zA-Z0-9_$?]*)\s*[?:]?\s*:/g);
-            if (propNames) {
-                for (const p of propNames) {
-                    const name = p.replace(/[?:\s]/g, '');
-                    if (name && !props.includes(name)) {
-                        props.push(name);
-                    }
-                }
-            }
-        }
-
-        // Look for common prop patterns in expressions
-        const usagePatterns = content.matchAll(/\{(title|lang|className|children|href|src|alt|id|name)\}/g);
-        for (const match of usagePatterns) {
-            if (match[1] && !props.includes(match[1])) {
-                props.push(match[1]);
-            }
-        }
+function readComponentProps(filePath: string, type: ComponentInfo['type']): ComponentProp[] {
+    if (type === 'page') {
+        return [];
+    }
 
-        return props;
+    try {
+        return extractComponentProps(fs.readFileSync(filePath, 'utf-8'));
     } catch {
         return [];
     }
 }
 
 /**
- * Discover all .zen files in a directory
+ * Name of a layout or component: the basename for files at the top of
+ * their directory, prefixed with the PascalCased subdirectories for
+ * nested ones (`forms/Input.zen` is `FormsInput`, `ui/button-group/Item.zen`
+ * is `UiButtonGroupItem`). The compiler API the server uses (`compile`)
+ * does not expose registration names, so the rule is kept here and
+ * pinned in test/references.spec.ts.
+ */
+export function getComponentName(dir: string, filePath: string): string {
+    const relative = path.relative(dir, filePath).replace(/\\/g, '/').replace(/\.zen$/, '');
+    const segments = relative.split('/');
+    const baseName = segments.pop()!;
+
+    const prefix = segments
+        .flatMap((segment) => segment.split(/[^a-zA-Z0-9]+/))
+        .filter(Boolean)
+        .map((word) => word[0].toUpperCase() + word.slice(1))
+        .join('');
+
+    return `${prefix}${baseName}`;
+}
+
+/**
+ * Discover all .zen files in a directory.
+ * Layouts and components are keyed by their compiler name, so nested
+ * files that share a basename are all kept; pages by their path under
+ * the pages directory, since `blog/[slug]` and `docs/[slug]` share a
+ * basename.
  */
 function discoverZenFiles(dir: string, type: 'layout' | 'component' | 'page'): Map<string, ComponentInfo> {
     const result = new Map<string, ComponentInfo>();
@@ -230,8 +247,8 @@ function discoverZenFiles(dir: string, type: 'layout' | 'component' | 'page'): M
             if (entry.isDirectory()) {
                 scanDir(fullPath);
             } else if (entry.name.endsWith('.zen')) {
-                const name = path.basename(entry.name, '.zen');
-                const props = extractPropsFromFile(fullPath);
+                const name = type === 'page' ? getPageKey(dir, fullPath) : getComponentName(dir, fullPath);
+                const props = readComponentProps(fullPath, type);
 
                 result.set(name, {
                     name,
@@ -248,36 +265,160 @@ function discoverZenFiles(dir: string, type: 'layout' | 'component' | 'page'): M
 }
 
 /**
- * Build project graph from root directory
+ * Get the source directory of a project (zenith.config.* `srcDir`, else
+ * src/ or app/)
+ */
+export function getSourceDir(root: string): string {
+    return readZenithConfig(root).srcDir;
+}
+
+/**
+ * Build project graph from root directory, using the directories the
+ * project's zenith.config.* configures
  */
 export function buildProjectGraph(root: string): ProjectGraph {
-    const srcDir = fs.existsSync(path.join(root, 'src')) ? path.join(root, 'src') : path.join(root, 'app');
+    const config = readZenithConfig(root);
 
-    const layouts = discoverZenFiles(path.join(srcDir, 'layouts'), 'layout');
-    const components = discoverZenFiles(path.join(srcDir, 'components'), 'component');
-    const pages = discoverZenFiles(path.join(srcDir, 'pages'), 'page');
+    const layouts = discoverZenFiles(config.layoutsDir, 'layout');
+    const components = discoverZenFiles(config.componentsDir, 'component');
+    const pagesDir = config.pagesDir;
+    const pages = discoverZenFiles(pagesDir, 'page');
 
     return {
         root,
         layouts,
         components,
-        pages
+        pages,
+        routes: buildRouteTable(pagesDir, pages.values(), layouts)
     };
 }
 
 /**
- * Resolve a component/layout by name
+ * Apply a created/changed/deleted event for one .zen file to a graph in
+ * place, re-reading only that file. Returns null for files outside the
+ * layouts, components and pages directories.
+ */
+export function updateProjectGraph(graph: ProjectGraph, filePath: string, change: ProjectFileChangeType): ProjectGraphChange | null {
+    if (!filePath.endsWith('.zen')) {
+        return null;
+    }
+
+    const config = readZenithConfig(graph.root);
+    const pagesDir = config.pagesDir;
+    const dirs: Array<[ComponentInfo['type'], string, Map<string, ComponentInfo>]> = [
+        ['layout', config.layoutsDir, graph.layouts],
+        ['component', config.componentsDir, graph.components],
+        ['page', pagesDir, graph.pages]
+    ];
+
+    const resolved = path.resolve(filePath);
+    const owner = dirs.find(([, dir]) => resolved.startsWith(`${dir}${path.sep}`));
+    if (!owner) {
+        return null;
+    }
+
+    const [type, dir, entries] = owner;
+    const name = type === 'page' ? getPageKey(dir, resolved) : getComponentName(dir, resolved);
+    const previous = entries.get(name);
+
+    // Editors report deletes of files that were renamed away as changes too.
+    if (change !== 'deleted' && !fs.existsSync(resolved)) {
+        change = 'deleted';
+    }
+
+    let entry: ComponentInfo;
+    if (change === 'deleted') {
+        entry = previous?.filePath === resolved ? previous : { name, filePath: resolved, type, props: [] };
+        if (previous?.filePath === resolved) {
+            entries.delete(name);
+        }
+    } else {
+        entry = { name, filePath: resolved, type, props: readComponentProps(resolved, type) };
+        entries.set(name, entry);
+    }
+
+    if (type === 'layout') {
+        // Page layouts only move when a layout appears or disappears.
+        if (change === 'changed') {
+            return { entry, change, routesChanged: false };
+        }
+        graph.routes = buildRouteTable(pagesDir, graph.pages.values(), graph.layouts);
+        return { entry, change, routesChanged: true };
+    }
+
+    if (type === 'page') {
+        const index = graph.routes.findIndex((route) => route.filePath === resolved);
+        const before = index >= 0 ? graph.routes[index] : null;
+        const after = change === 'deleted' ? null : buildRouteTable(pagesDir, [entry], graph.layouts)[0];
+
+        const routes = graph.routes.filter((route) => route.filePath !== resolved);
+        if (after) routes.push(after);
+        graph.routes = routes.sort(compareRoutes);
+
+        return { entry, change, routesChanged: before?.path !== after?.path || before?.layout !== after?.layout };
+    }
+
+    return { entry, change, routesChanged: false };
+}
+
+/**
+ * Layouts and components whose file basename is `name`, for diagnosing
+ * tags that use the short name of a nested component (`<Input>` for
+ * `FormsInput`).
  */
-export function resolveComponent(graph: ProjectGraph, name: string): ComponentInfo | undefined {
+export function findComponentsByBaseName(graph: ProjectGraph, name: string): ComponentInfo[] {
+    return [...graph.layouts.values(), ...graph.components.values()]
+        .filter((info) => path.basename(info.filePath, '.zen') === name);
+}
+
+/**
+ * Local names bound to .zen files by a document's script imports
+ * (`import Input from '../components/forms/Input.zen'`, or through a
+ * zenith.config.* alias), mapped to the imported file's absolute path.
+ */
+export function getComponentImports(doc: ZenDocument, filePath: string): Map<string, string> {
+    const imports = new Map<string, string>();
+    const bindings = collectScriptSymbols(doc).imports
+        .filter((binding) => binding.imported === 'default' && binding.module.endsWith('.zen'));
+    if (bindings.length === 0) {
+        return imports;
+    }
+
+    const config = getZenithConfigFor(filePath);
+    for (const binding of bindings) {
+        const resolved = binding.module.startsWith('.')
+            ? path.resolve(path.dirname(filePath), binding.module)
+            : config && resolveConfigAlias(config, binding.module);
+        if (resolved) {
+            imports.set(binding.name, resolved);
+        }
+    }
+    return imports;
+}
+
+/**
+ * Resolve a component/layout by name: an explicit import of a .zen file
+ * first, then the compiler name. The short name of a nested component
+ * does not resolve; diagnostics point at its qualified name.
+ */
+export function resolveComponent(
+    graph: ProjectGraph,
+    name: string,
+    componentImports?: Map<string, string>
+): ComponentInfo | undefined {
+    const importedPath = componentImports?.get(name);
+    if (importedPath) {
+        const imported = [...graph.layouts.values(), ...graph.components.values()].find((info) => info.filePath === importedPath);
+        if (imported) {
+            return imported;
+        }
+    }
+
     // Check layouts first (common pattern for <DefaultLayout>)
     if (graph.layouts.has(name)) {
         return graph.layouts.get(name);
     }
 
     // Then components
-    if (graph.components.has(name)) {
-        return graph.components.get(name);
-    }
-
-    return undefined;
+    return graph.components.get(name);
 }
@@ -0,0 +1,58 @@
+/**
+ * Protocol Constants
+ *
+ * LSP enum values used by the pure modules, which build plain protocol
+ * objects without depending on vscode-languageserver. Only the members
+ * the server uses are listed.
+ */
+
+export const DiagnosticSeverity = {
+    Error: 1,
+    Warning: 2,
+    Information: 3,
+    Hint: 4
+} as const;
+
+export const DiagnosticTag = {
+    Unnecessary: 1,
+    Deprecated: 2
+} as const;
+
+export const CompletionItemKind = {
+    Text: 1,
+    Method: 2,
+    Function: 3,
+    Constructor: 4,
+    Field: 5,
+    Variable: 6,
+    Class: 7,
+    Interface: 8,
+    Module: 9,
+    Property: 10,
+    Value: 12,
+    Enum: 13,
+    Keyword: 14,
+    File: 17,
+    Folder: 19,
+    EnumMember: 20,
+    Constant: 21,
+    TypeParameter: 25
+} as const;
+
+export const InsertTextFormat = {
+    PlainText: 1,
+    Snippet: 2
+} as const;
+
+export const SymbolKind = {
+    File: 1,
+    Module: 2,
+    Namespace: 3,
+    Class: 5,
+    Field: 8,
+    Interface: 11,
+    Function: 12,
+    Variable: 13,
+    Boolean: 17,
+    Array: 18
+} as const;
@@ -0,0 +1,168 @@
+/**
+ * Find All References
+ *
+ * Component references are found by parsing every .zen file in the
+ * project graph and resolving element tags, so text mentions of a
+ * component name are never reported.
+ */
+
+import * as path from 'path';
+
+import {
+    getComponentImports,
+    resolveComponent,
+    type ComponentInfo,
+    type ProjectGraph,
+    type ProjectGraphChange
+} from './project';
+import { getParsedDocument, parseZenDocument } from './parser';
+import { findTagNameAt, type ZenithLocation } from './definition';
+import { collectRouteReferences } from './routes';
+import { loadProjectDocuments, type OpenDocumentLookup } from './workspace';
+import { filePathToUri, uriToFilePath } from './uri';
+import type { ZenithRange, ZenithTextDocumentLike } from './diagnostics';
+
+export interface ComponentTagReference {
+    document: ZenithTextDocumentLike;
+    start: number;
+    end: number;
+}
+
+/**
+ * Whether a document's text can mention a component at all: a tag under
+ * its qualified or short name, or its file name in an import. Checked
+ * before parsing, so a project-wide search only parses the files that can
+ * match.
+ */
+export function mayReferenceComponent(text: string, component: ComponentInfo): boolean {
+    const baseName = path.basename(component.filePath, '.zen');
+    return text.includes(`<${component.name}`) || text.includes(`<${baseName}`) || text.includes(`${baseName}.zen`);
+}
+
+/**
+ * Find every opening and closing tag that resolves to a component across
+ * documents. Tags are resolved through each document's own imports, so
+ * `<Input>` bound to `forms/Input.zen` is found while an `<Input>` bound
+ * to another file is not.
+ */
+export function findComponentTags(
+    graph: ProjectGraph,
+    component: ComponentInfo,
+    documents: ZenithTextDocumentLike[]
+): ComponentTagReference[] {
+    const references: ComponentTagReference[] = [];
+
+    for (const document of documents) {
+        const text = document.getText();
+        if (!mayReferenceComponent(text, component)) continue;
+
+        // Parsed outside the shared cache, which a project-wide search would flush.
+        const doc = parseZenDocument(text);
+        const componentImports = getComponentImports(doc, uriToFilePath(document.uri));
+        const found: ComponentTagReference[] = [];
+
+        for (const element of doc.elements) {
+            if (!element.isComponent || resolveComponent(graph, element.tagName, componentImports) !== component) continue;
+
+            found.push({ document, start: element.tagNameStart, end: element.tagNameEnd });
+            if (element.endTagNameStart !== null) {
+                found.push({
+                    document,
+                    start: element.endTagNameStart,
+                    end: element.endTagNameStart + element.tagName.length
+                });
+            }
+        }
+
+        references.push(...found.sort((a, b) => a.start - b.start));
+    }
+
+    return references;
+}
+
+/**
+ * Collect the documents to search: the project graph plus the requesting
+ * document (which may live outside the graph's directories).
+ */
+export function collectSearchDocuments(
+    document: ZenithTextDocumentLike,
+    graph: ProjectGraph,
+    openDocuments?: OpenDocumentLookup
+): ZenithTextDocumentLike[] {
+    const documents = loadProjectDocuments(graph, openDocuments);
+    if (!documents.some((candidate) => candidate.uri === document.uri)) {
+        documents.unshift(document);
+    }
+    return documents;
+}
+
+/**
+ * Find references to the component whose tag is at the offset.
+ */
+export function findReferences(
+    document: ZenithTextDocumentLike,
+    offset: number,
+    graph: ProjectGraph | null,
+    includeDeclaration: boolean,
+    openDocuments?: OpenDocumentLookup
+): ZenithLocation[] {
+    if (!graph) return [];
+
+    const doc = getParsedDocument(document.uri, document.getText());
+    const tag = findTagNameAt(doc, offset);
+    if (!tag || !tag.element.isComponent) return [];
+
+    const component = resolveComponent(graph, tag.element.tagName, getComponentImports(doc, uriToFilePath(document.uri)));
+    if (!component) return [];
+
+    const locations: ZenithLocation[] = [];
+    if (includeDeclaration) {
+        const fileStart: ZenithRange = { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+        locations.push({ uri: filePathToUri(component.filePath), range: fileStart });
+    }
+
+    const references = findComponentTags(graph, component, collectSearchDocuments(document, graph, openDocuments));
+    for (const reference of references) {
+        locations.push({
+            uri: reference.document.uri,
+            range: {
+                start: reference.document.positionAt(reference.start),
+                end: reference.document.positionAt(reference.end)
+            }
+        });
+    }
+
+    return locations;
+}
+
+/**
+ * Documents whose diagnostics depend on a graph change: the changed file
+ * itself, documents using the component or layout as a tag (by its
+ * qualified name, its short name or an import of its file), and, when
+ * the route table changed, documents that link to routes.
+ */
+export function findDependentDocuments<T extends ZenithTextDocumentLike>(change: ProjectGraphChange, documents: T[]): T[] {
+    // Matched by name rather than resolution: a created or deleted sibling
+    // can make a short name ambiguous, or unique, without touching the
+    // entry the tag resolved to.
+    const tagUsers = new Set<string>();
+    if (change.entry.type !== 'page') {
+        const names = new Set([change.entry.name, path.basename(change.entry.filePath, '.zen')]);
+        for (const document of documents) {
+            const doc = getParsedDocument(document.uri, document.getText());
+            const componentImports = getComponentImports(doc, uriToFilePath(document.uri));
+            const usesEntry = doc.elements.some((element) =>
+                element.isComponent && (names.has(element.tagName) || componentImports.get(element.tagName) === change.entry.filePath));
+            if (usesEntry) {
+                tagUsers.add(document.uri);
+            }
+        }
+    }
+
+    return documents.filter((document) => {
+        if (tagUsers.has(document.uri) || uriToFilePath(document.uri) === change.entry.filePath) {
+            return true;
+        }
+        return change.routesChanged && collectRouteReferences(getParsedDocument(document.uri, document.getText())).length > 0;
+    });
+}
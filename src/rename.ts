@@ -0,0 +1,411 @@
+/**
+ * Rename
+ *
+ * Component and layout renames are project-wide: every opening and
+ * closing tag in the project graph that resolves to the component is
+ * rewritten, imports of its file are pointed at the new name, and the
+ * component file is renamed, since component identity comes from the
+ * file basename.
+ *
+ * Script symbols (`state`, functions) are renamed within one .zen file,
+ * across the script and template, which share a single scope in Zenith;
+ * parameters and locals that shadow the symbol keep their name.
+ * zen:for loop variables are renamed only inside their element.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+
+import { parseZenithImports } from './imports';
+import { getComponentImports, resolveComponent, type ProjectGraph } from './project';
+import { getParsedDocument, getTemplateCodeSpans, findRawBlockAt, parseZenDocument, type ZenDocument } from './parser';
+import {
+    findTagNameAt,
+    findLoopVariable,
+    getIdentifierAt,
+    isTemplateExpressionOffset,
+    type IdentifierAtOffset,
+    type LoopVariableDeclaration
+} from './definition';
+import { collectScriptSymbols } from './script-symbols';
+import { desugarStateDeclarations } from './script-projection';
+import { collectSearchDocuments, findComponentTags } from './references';
+import type { OpenDocumentLookup } from './workspace';
+import { filePathToUri, uriToFilePath } from './uri';
+import type { ZenithRange, ZenithTextDocumentLike } from './diagnostics';
+
+export interface ZenithTextEdit {
+    range: ZenithRange;
+    newText: string;
+}
+
+export interface ZenithTextDocumentEdit {
+    textDocument: { uri: string; version: null };
+    edits: ZenithTextEdit[];
+}
+
+export interface ZenithRenameFile {
+    kind: 'rename';
+    oldUri: string;
+    newUri: string;
+}
+
+export interface ZenithWorkspaceEdit {
+    documentChanges: Array<ZenithTextDocumentEdit | ZenithRenameFile>;
+}
+
+export interface PrepareRenameResult {
+    range: ZenithRange;
+    placeholder: string;
+}
+
+export type RenameResult = { edit: ZenithWorkspaceEdit } | { error: string };
+
+const COMPONENT_NAME_PATTERN = /^[A-Z][A-Za-z0-9]*$/;
+const IDENTIFIER_PATTERN = /^[a-zA-Z_$][\w$]*$/;
+
+const RESERVED_WORDS = new Set([
+    'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+    'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if',
+    'import', 'in', 'instanceof', 'let', 'new', 'null', 'return', 'state', 'super', 'switch',
+    'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+    'await', 'async'
+]);
+
+interface SymbolTarget {
+    identifier: IdentifierAtOffset;
+    /** Loop variable declaration, or null for a script-level symbol. */
+    loop: LoopVariableDeclaration | null;
+}
+
+/**
+ * Resolve the renameable script symbol or loop variable at an offset.
+ */
+function findSymbolTarget(doc: ZenDocument, offset: number): SymbolTarget | null {
+    const inScript = findRawBlockAt(doc, offset)?.type === 'script';
+    if (!inScript && !isTemplateExpressionOffset(doc, offset)) {
+        return null;
+    }
+
+    const identifier = getIdentifierAt(doc.text, offset);
+    if (!identifier) return null;
+
+    if (!inScript) {
+        const loop = findLoopVariable(doc, identifier.start, identifier.name);
+        if (loop) {
+            return { identifier, loop };
+        }
+    }
+
+    const symbols = collectScriptSymbols(doc);
+    const isScriptSymbol = symbols.states.has(identifier.name) ||
+        symbols.functions.some((func) => func.name === identifier.name);
+
+    return isScriptSymbol ? { identifier, loop: null } : null;
+}
+
+interface SymbolOccurrence {
+    start: number;
+    end: number;
+    /** Shorthand property (`{ count }`), renamed as `count: next`. */
+    shorthand: boolean;
+}
+
+function addBindingNames(name: ts.BindingName, names: Set<string>): void {
+    if (ts.isIdentifier(name)) {
+        names.add(name.text);
+        return;
+    }
+    for (const element of name.elements) {
+        if (!ts.isOmittedExpression(element)) addBindingNames(element.name, names);
+    }
+}
+
+/**
+ * Names a nested scope declares for itself: parameters and the name of a
+ * function expression, locals and functions declared directly in a block,
+ * loop initializers and catch bindings.
+ */
+function getScopeDeclarations(node: ts.Node): Set<string> {
+    const names = new Set<string>();
+
+    if (ts.isFunctionLike(node)) {
+        for (const parameter of node.parameters) addBindingNames(parameter.name, names);
+        if (ts.isFunctionExpression(node) && node.name) names.add(node.name.text);
+    } else if (ts.isBlock(node) || ts.isCaseClause(node) || ts.isDefaultClause(node)) {
+        for (const statement of node.statements) {
+            if (ts.isVariableStatement(statement)) {
+                for (const declaration of statement.declarationList.declarations) addBindingNames(declaration.name, names);
+            } else if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+                names.add(statement.name.text);
+            }
+        }
+    } else if ((ts.isForStatement(node) || ts.isForOfStatement(node) || ts.isForInStatement(node)) &&
+        node.initializer && ts.isVariableDeclarationList(node.initializer)) {
+        for (const declaration of node.initializer.declarations) addBindingNames(declaration.name, names);
+    } else if (ts.isCatchClause(node) && node.variableDeclaration) {
+        addBindingNames(node.variableDeclaration.name, names);
+    }
+
+    return names;
+}
+
+/**
+ * Whether an identifier names a property rather than a binding: member
+ * accesses, object keys, class members and destructured keys.
+ */
+function isPropertyName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    return (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+        (ts.isQualifiedName(parent) && parent.right === node) ||
+        ((ts.isPropertyAssignment(parent) || ts.isMethodDeclaration(parent) || ts.isPropertyDeclaration(parent) ||
+            ts.isPropertySignature(parent) || ts.isMethodSignature(parent) || ts.isAccessor(parent) ||
+            ts.isEnumMember(parent)) && parent.name === node) ||
+        (ts.isBindingElement(parent) && parent.propertyName === node) ||
+        ((ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) && parent.label === node);
+}
+
+/**
+ * References to the outer binding of `name` in a piece of code. Nested
+ * functions and blocks that declare their own `name` are skipped.
+ */
+function findOuterReferences(code: string, name: string, baseOffset: number): SymbolOccurrence[] {
+    const source = ts.createSourceFile('rename.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const occurrences: SymbolOccurrence[] = [];
+
+    const visit = (node: ts.Node) => {
+        if (node !== source && getScopeDeclarations(node).has(name)) {
+            return;
+        }
+        if (ts.isIdentifier(node) && node.text === name && !isPropertyName(node)) {
+            const start = baseOffset + node.getStart(source);
+            occurrences.push({ start, end: start + name.length, shorthand: ts.isShorthandPropertyAssignment(node.parent) });
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    return occurrences;
+}
+
+/**
+ * Find every occurrence of a symbol: script references (for script-level
+ * symbols) plus template references that resolve to the same binding.
+ */
+function findSymbolOccurrences(doc: ZenDocument, target: SymbolTarget): SymbolOccurrence[] {
+    const name = target.identifier.name;
+    const occurrences: SymbolOccurrence[] = [];
+
+    if (!target.loop) {
+        for (const block of doc.scripts) {
+            occurrences.push(...findOuterReferences(desugarStateDeclarations(block.content), name, block.contentStart));
+        }
+    }
+
+    for (const span of getTemplateCodeSpans(doc)) {
+        // Parenthesized so `{ a }` parses as an object rather than a block.
+        for (const reference of findOuterReferences(`(${span.code})`, name, span.start - 1)) {
+            const binding = findLoopVariable(doc, reference.start, name);
+            const sameBinding = target.loop
+                ? binding?.element === target.loop.element
+                : binding === null;
+
+            if (sameBinding) occurrences.push(reference);
+        }
+    }
+
+    return occurrences.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Check whether the symbol at the offset can be renamed.
+ */
+export function prepareRename(
+    document: ZenithTextDocumentLike,
+    offset: number,
+    graph: ProjectGraph | null
+): PrepareRenameResult | null {
+    const doc = getParsedDocument(document.uri, document.getText());
+
+    const tag = findTagNameAt(doc, offset);
+    if (tag) {
+        const componentImports = getComponentImports(doc, uriToFilePath(document.uri));
+        if (!tag.element.isComponent || !graph || !resolveComponent(graph, tag.element.tagName, componentImports)) {
+            return null;
+        }
+        return {
+            range: { start: document.positionAt(tag.start), end: document.positionAt(tag.end) },
+            placeholder: tag.element.tagName
+        };
+    }
+
+    const target = findSymbolTarget(doc, offset);
+    if (target) {
+        return {
+            range: {
+                start: document.positionAt(target.identifier.start),
+                end: document.positionAt(target.identifier.end)
+            },
+            placeholder: target.identifier.name
+        };
+    }
+
+    return null;
+}
+
+function renameSymbol(
+    document: ZenithTextDocumentLike,
+    doc: ZenDocument,
+    target: SymbolTarget,
+    newName: string
+): RenameResult {
+    if (!IDENTIFIER_PATTERN.test(newName) || RESERVED_WORDS.has(newName)) {
+        return { error: `'${newName}' is not a valid identifier.` };
+    }
+
+    const edits = findSymbolOccurrences(doc, target).map((occurrence) => ({
+        range: {
+            start: document.positionAt(occurrence.start),
+            end: document.positionAt(occurrence.end)
+        },
+        newText: occurrence.shorthand ? `${target.identifier.name}: ${newName}` : newName
+    }));
+
+    return {
+        edit: {
+            documentChanges: edits.length > 0 ? [{ textDocument: { uri: document.uri, version: null }, edits }] : []
+        }
+    };
+}
+
+function renameComponent(
+    document: ZenithTextDocumentLike,
+    doc: ZenDocument,
+    name: string,
+    newName: string,
+    graph: ProjectGraph,
+    openDocuments?: OpenDocumentLookup
+): RenameResult {
+    const component = resolveComponent(graph, name, getComponentImports(doc, uriToFilePath(document.uri)));
+    if (!component) {
+        return { error: `'${name}' is not a known component or layout.` };
+    }
+
+    if (!COMPONENT_NAME_PATTERN.test(newName)) {
+        return { error: `'${newName}' is not a valid component name. Use PascalCase (e.g. HeroBanner).` };
+    }
+
+    if (newName === name) {
+        return { edit: { documentChanges: [] } };
+    }
+
+    if (resolveComponent(graph, newName)) {
+        return { error: `A component or layout named '${newName}' already exists.` };
+    }
+
+    // Nested components keep their directory prefix (FormsInput -> FormsField
+    // renames forms/Input.zen to forms/Field.zen); tags imported under
+    // the basename are renamed to the new basename.
+    const baseName = path.basename(component.filePath, '.zen');
+    const prefix = component.name.slice(0, component.name.length - baseName.length);
+    const renamingQualified = name === component.name;
+    if (renamingQualified && prefix && (!newName.startsWith(prefix) || newName === prefix)) {
+        return { error: `'${newName}' must keep the directory prefix '${prefix}' of '${name}'.` };
+    }
+    const newBaseName = renamingQualified ? newName.slice(prefix.length) : newName;
+
+    const newFilePath = path.join(path.dirname(component.filePath), `${newBaseName}.zen`);
+    if (fs.existsSync(newFilePath)) {
+        return { error: `Cannot rename: '${path.basename(newFilePath)}' already exists.` };
+    }
+
+    // Tags written as the qualified name or imported under the basename
+    // follow the rename; tags imported under another local name keep it.
+    const newQualifiedName = `${prefix}${newBaseName}`;
+    const getNewTagName = (tagName: string) =>
+        tagName === component.name ? newQualifiedName : tagName === baseName ? newBaseName : null;
+
+    const editsByUri = new Map<string, ZenithTextEdit[]>();
+    const addEdit = (target: ZenithTextDocumentLike, start: number, end: number, newText: string) => {
+        const edits = editsByUri.get(target.uri) ?? [];
+        edits.push({ range: { start: target.positionAt(start), end: target.positionAt(end) }, newText });
+        editsByUri.set(target.uri, edits);
+    };
+
+    const documents = collectSearchDocuments(document, graph, openDocuments);
+    for (const reference of findComponentTags(graph, component, documents)) {
+        const newTagName = getNewTagName(reference.document.getText().slice(reference.start, reference.end));
+        if (newTagName) {
+            addEdit(reference.document, reference.start, reference.end, newTagName);
+        }
+    }
+
+    // Imports of the file point at its new name, and bindings named after
+    // the component are renamed with their tags.
+    for (const target of documents) {
+        const text = target.getText();
+        if (!text.includes(`${baseName}.zen`)) continue;
+
+        const targetDoc = parseZenDocument(text);
+        const componentImports = getComponentImports(targetDoc, uriToFilePath(target.uri));
+        const bindings = collectScriptSymbols(targetDoc).imports
+            .filter((binding) => binding.imported === 'default' && componentImports.get(binding.name) === component.filePath);
+
+        for (const binding of bindings) {
+            const newBindingName = getNewTagName(binding.name);
+            if (newBindingName) {
+                addEdit(target, binding.offset, binding.offset + binding.name.length, newBindingName);
+            }
+
+            for (const block of targetDoc.scripts) {
+                const imp = parseZenithImports(block.content).find((candidate) => candidate.defaultImport === binding.name);
+                const fileName = `${baseName}.zen`;
+                if (imp && imp.module.endsWith(fileName)) {
+                    const end = block.contentStart + imp.moduleEnd;
+                    addEdit(target, end - fileName.length, end, `${newBaseName}.zen`);
+                }
+            }
+        }
+    }
+
+    const documentChanges: ZenithWorkspaceEdit['documentChanges'] = [];
+    for (const [uri, edits] of editsByUri) {
+        documentChanges.push({ textDocument: { uri, version: null }, edits });
+    }
+
+    // Text edits are applied first, against the file's current URI.
+    documentChanges.push({
+        kind: 'rename',
+        oldUri: filePathToUri(component.filePath),
+        newUri: filePathToUri(newFilePath)
+    });
+
+    return { edit: { documentChanges } };
+}
+
+/**
+ * Rename the symbol at the offset.
+ */
+export function rename(
+    document: ZenithTextDocumentLike,
+    offset: number,
+    newName: string,
+    graph: ProjectGraph | null,
+    openDocuments?: OpenDocumentLookup
+): RenameResult | null {
+    const doc = getParsedDocument(document.uri, document.getText());
+
+    const tag = findTagNameAt(doc, offset);
+    if (tag) {
+        if (!tag.element.isComponent || !graph) return null;
+        return renameComponent(document, doc, tag.element.tagName, newName, graph, openDocuments);
+    }
+
+    const target = findSymbolTarget(doc, offset);
+    if (target) {
+        return renameSymbol(document, doc, target, newName);
+    }
+
+    return null;
+}
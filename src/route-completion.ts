@@ -0,0 +1,72 @@
+/**
+ * Route Completion
+ *
+ * Offers the project's routes inside `<ZenLink to="...">` values and the
+ * string arguments of navigate(), prefetch() and isActive(). Dynamic and
+ * catch-all segments become snippet placeholders, so `/blog/[slug]`
+ * inserts `/blog/${1:slug}`.
+ */
+
+import * as path from 'path';
+
+import { getParsedDocument } from './parser';
+import { collectRouteReferences, ROUTE_TARGET_FUNCTIONS, type ZenithRoute } from './routes';
+import type { ZenithRange, ZenithTextDocumentLike } from './diagnostics';
+import { CompletionItemKind, InsertTextFormat } from './protocol';
+
+const ROUTE_COMPLETION_FUNCTIONS: readonly string[] = [...ROUTE_TARGET_FUNCTIONS, 'isActive'];
+
+export interface ZenithRouteCompletionItem {
+    label: string;
+    kind: number;
+    detail: string;
+    documentation: string;
+    insertTextFormat: number;
+    textEdit: { range: ZenithRange; newText: string };
+    sortText: string;
+}
+
+function escapeSnippet(text: string): string {
+    return text.replace(/[\\$}]/g, '\\$&');
+}
+
+/**
+ * Snippet for a route with a tab stop per dynamic segment.
+ */
+export function getRouteSnippet(route: ZenithRoute): string {
+    let tabStop = 0;
+    const parts = route.segments.map((segment) =>
+        segment.param ? `\${${++tabStop}:${segment.param}}` : escapeSnippet(segment.value));
+    return `/${parts.join('/')}`;
+}
+
+/**
+ * Route completions when the offset is inside a route string, or null.
+ */
+export function getRouteCompletions(
+    document: ZenithTextDocumentLike,
+    routes: ZenithRoute[],
+    offset: number
+): ZenithRouteCompletionItem[] | null {
+    const doc = getParsedDocument(document.uri, document.getText());
+    const reference = collectRouteReferences(doc, ROUTE_COMPLETION_FUNCTIONS)
+        .find((candidate) => offset >= candidate.start && offset <= candidate.end);
+
+    if (!reference) {
+        return null;
+    }
+
+    const range = { start: document.positionAt(reference.start), end: document.positionAt(reference.end) };
+
+    return routes.map((route, index) => ({
+        label: route.path,
+        kind: CompletionItemKind.File,
+        detail: route.params.length > 0 ? `route (${route.params.join(', ')})` : 'route',
+        documentation: route.layout
+            ? `${path.basename(route.filePath)} in ${route.layout}`
+            : path.basename(route.filePath),
+        insertTextFormat: InsertTextFormat.Snippet,
+        textEdit: { range, newText: getRouteSnippet(route) },
+        sortText: String(index).padStart(4, '0')
+    }));
+}
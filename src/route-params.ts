@@ -0,0 +1,206 @@
+/**
+ * Route Params
+ *
+ * Types `useRoute().params` in page files by the page's dynamic segments:
+ * in `src/pages/blog/[slug].zen`, `route.params.` completes to `slug`,
+ * hovering `slug` shows where it comes from, and reading any other param
+ * is reported.
+ *
+ * Route objects are the variables bound to `useRoute()` (plus the template
+ * `route` when zenith/router is imported); `const { params } = useRoute()`
+ * binds a params object directly.
+ */
+
+import { getZenithConfigFor } from './config';
+import { classifyZenithFile } from './contracts';
+import { getParsedDocument, getTemplateCodeSpans, type ZenDocument } from './parser';
+import { getPageRoutePath, parseRouteSegment } from './routes';
+import { collectScriptSymbols } from './script-symbols';
+import { findClosestMatch } from './suggestions';
+import { uriToFilePath } from './uri';
+import { UNKNOWN_ROUTE_PARAM_DIAGNOSTIC_CODE } from './code-actions';
+import type { ZenithDiagnostic, ZenithRange, ZenithTextDocumentLike } from './diagnostics';
+import { CompletionItemKind, DiagnosticSeverity } from './protocol';
+
+export interface PageRouteParams {
+    /** Route pattern of the page, e.g. `/blog/[slug]`. */
+    path: string;
+    params: Array<{ name: string; catchAll: boolean }>;
+}
+
+export interface RouteParamAccess {
+    name: string;
+    start: number;
+    end: number;
+}
+
+export interface ZenithRouteParamCompletionItem {
+    label: string;
+    kind: number;
+    detail: string;
+    documentation: string;
+    sortText: string;
+}
+
+/**
+ * The route and params of a page file, or null for layouts and components.
+ */
+export function getPageRouteParams(filePath: string): PageRouteParams | null {
+    if (classifyZenithFile(filePath) !== 'page') {
+        return null;
+    }
+
+    const normalized = filePath.replace(/\\/g, '/');
+    const marker = normalized.lastIndexOf('/src/pages/') >= 0 ? '/src/pages/' : '/app/pages/';
+    const pagesDir = getZenithConfigFor(filePath)?.pagesDir ?? normalized.slice(0, normalized.lastIndexOf(marker) + marker.length - 1);
+    const routePath = getPageRoutePath(pagesDir, normalized);
+
+    const params = routePath.split('/').filter(Boolean).map(parseRouteSegment).flatMap((segment) =>
+        segment.param ? [{ name: segment.param, catchAll: segment.kind !== 'dynamic' }] : []);
+
+    return { path: routePath, params };
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[$]/g, '\\$&');
+}
+
+/**
+ * Pattern source for expressions that evaluate to the params object.
+ */
+function getParamsObjectPattern(doc: ZenDocument): string {
+    const routeNames = new Set<string>();
+    const paramsNames = new Set<string>();
+    const script = doc.scripts.map((block) => block.content).join('\n');
+
+    for (const match of script.matchAll(/\b(?:const|let|var|state)\s+([a-zA-Z_$][\w$]*)\s*=\s*useRoute\s*\(\s*\)/g)) {
+        routeNames.add(match[1]);
+    }
+    for (const match of script.matchAll(/\b(?:const|let|var)\s*\{([^}]*)\}\s*=\s*useRoute\s*\(\s*\)/g)) {
+        const entry = match[1].split(',').map((part) => part.trim()).find((part) => /^params\b/.test(part));
+        const alias = entry?.match(/^params\s*:\s*([a-zA-Z_$][\w$]*)/)?.[1] ?? (entry ? 'params' : null);
+        if (alias) paramsNames.add(alias);
+    }
+
+    const routerImported = collectScriptSymbols(doc).imports.some((binding) => binding.module === 'zenith/router');
+    if (routerImported && routeNames.size === 0) {
+        routeNames.add('route');
+    }
+
+    const alternatives = [
+        `(?:${[...routeNames].map(escapeRegExp).concat('useRoute\\s*\\(\\s*\\)').join('|')})\\s*\\.\\s*params`,
+        ...[...paramsNames].map(escapeRegExp)
+    ];
+
+    return `(?<![\\w$.])(?:${alternatives.join('|')})\\s*\\.\\s*`;
+}
+
+/**
+ * Every `route.params.name` read in a document's scripts and template.
+ */
+export function findRouteParamAccesses(doc: ZenDocument): RouteParamAccess[] {
+    const pattern = new RegExp(`${getParamsObjectPattern(doc)}([a-zA-Z_$][\\w$]*)`, 'dg');
+    const accesses: RouteParamAccess[] = [];
+
+    const regions = [
+        ...doc.scripts.map((block) => ({ code: block.content, start: block.contentStart })),
+        ...getTemplateCodeSpans(doc).map((span) => ({ code: span.code, start: span.start }))
+    ];
+
+    for (const region of regions) {
+        for (const match of region.code.matchAll(pattern)) {
+            const indices = match.indices?.[1];
+            if (indices) {
+                accesses.push({ name: match[1], start: region.start + indices[0], end: region.start + indices[1] });
+            }
+        }
+    }
+
+    return accesses.sort((a, b) => a.start - b.start);
+}
+
+function isInCode(doc: ZenDocument, offset: number): boolean {
+    return doc.scripts.some((block) => offset >= block.contentStart && offset <= block.contentEnd) ||
+        getTemplateCodeSpans(doc).some((span) => offset >= span.start && offset <= span.start + span.code.length);
+}
+
+/**
+ * Param completions after `route.params.` in a page, or null elsewhere.
+ */
+export function getRouteParamCompletions(
+    document: ZenithTextDocumentLike,
+    offset: number
+): ZenithRouteParamCompletionItem[] | null {
+    const page = getPageRouteParams(uriToFilePath(document.uri));
+    const text = document.getText();
+    const doc = getParsedDocument(document.uri, text);
+
+    if (!page || !isInCode(doc, offset)) {
+        return null;
+    }
+
+    const lineBefore = text.slice(text.lastIndexOf('\n', offset - 1) + 1, offset);
+    if (!new RegExp(`${getParamsObjectPattern(doc)}[\\w$]*$`).test(lineBefore)) {
+        return null;
+    }
+
+    return page.params.map((param, index) => ({
+        label: param.name,
+        kind: CompletionItemKind.Field,
+        detail: 'string',
+        documentation: `${param.catchAll ? 'Catch-all route param' : 'Route param'} from \`${page.path}\``,
+        sortText: String(index).padStart(2, '0')
+    }));
+}
+
+/**
+ * Hover for a param read in a page (`route.params.slug`).
+ */
+export function getRouteParamHover(
+    document: ZenithTextDocumentLike,
+    offset: number
+): { contents: string; range: ZenithRange } | null {
+    const page = getPageRouteParams(uriToFilePath(document.uri));
+    if (!page) return null;
+
+    const doc = getParsedDocument(document.uri, document.getText());
+    const access = findRouteParamAccesses(doc).find((candidate) => offset >= candidate.start && offset <= candidate.end);
+    const param = access ? page.params.find((candidate) => candidate.name === access.name) : undefined;
+
+    if (!access || !param) {
+        return null;
+    }
+
+    return {
+        contents: `\`\`\`ts\n(route param) ${param.name}: string\n\`\`\`\n\n${param.catchAll ? 'Catch-all segment' : 'Dynamic segment'} of \`${page.path}\``,
+        range: { start: document.positionAt(access.start), end: document.positionAt(access.end) }
+    };
+}
+
+/**
+ * Params read in a page that its route does not declare.
+ */
+export function collectRouteParamDiagnostics(document: ZenithTextDocumentLike, doc: ZenDocument): ZenithDiagnostic[] {
+    const page = getPageRouteParams(uriToFilePath(document.uri));
+    if (!page) return [];
+
+    const names = page.params.map((param) => param.name);
+    const diagnostics: ZenithDiagnostic[] = [];
+
+    for (const access of findRouteParamAccesses(doc)) {
+        if (names.includes(access.name)) continue;
+
+        const suggestion = findClosestMatch(access.name, names);
+        const declared = names.length > 0 ? `declares ${names.map((name) => `'${name}'`).join(', ')}` : 'has no params';
+
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: { start: document.positionAt(access.start), end: document.positionAt(access.end) },
+            message: `Unknown route param '${access.name}': route '${page.path}' ${declared}.${suggestion ? ` Did you mean '${suggestion}'?` : ''}`,
+            source: 'zenith',
+            code: UNKNOWN_ROUTE_PARAM_DIAGNOSTIC_CODE
+        });
+    }
+
+    return diagnostics;
+}
@@ -0,0 +1,197 @@
+/**
+ * Router Hook Placement
+ *
+ * Enforces the restrictions in ROUTER_HOOKS: useRoute()/useRouter() must
+ * be called at top-level script scope, not inside functions, callbacks,
+ * conditionals or loops. Nested calls carry a quick fix that hoists them
+ * above the top-level statement containing them.
+ *
+ * Hooks called without an import from zenith/router are reported too,
+ * with the auto-import quick fix.
+ */
+
+import ts from 'typescript';
+
+import { getAutoImportData } from './auto-import';
+import { ROUTER_HOOKS } from './router';
+import { collectScriptSymbols } from './script-symbols';
+import { desugarStateDeclarations } from './script-projection';
+import { ROUTER_HOOK_IMPORT_DIAGNOSTIC_CODE, ROUTER_HOOK_PLACEMENT_DIAGNOSTIC_CODE } from './code-actions';
+import type { ZenDocument, ZenRawBlock } from './parser';
+import type { ZenithDiagnostic, ZenithRange, ZenithTextDocumentLike } from './diagnostics';
+import { DiagnosticSeverity } from './protocol';
+
+const ROUTER_MODULE = 'zenith/router';
+
+/**
+ * Edits that hoist a nested hook call, carried as diagnostic data.
+ */
+export interface RouterHookCodeActionData {
+    title: string;
+    edits: Array<{ range: ZenithRange; newText: string }>;
+}
+
+/**
+ * Why a node is not at top-level scope, or null when it is.
+ */
+function getNestingReason(node: ts.Node): string | null {
+    if (ts.isFunctionLike(node)) {
+        return ts.isCallExpression(node.parent) ? 'inside a callback' : 'inside a function';
+    }
+    if (ts.isIfStatement(node) || ts.isConditionalExpression(node) || ts.isSwitchStatement(node)) {
+        return 'inside a conditional';
+    }
+    if (ts.isBinaryExpression(node) && [
+        ts.SyntaxKind.AmpersandAmpersandToken,
+        ts.SyntaxKind.BarBarToken,
+        ts.SyntaxKind.QuestionQuestionToken
+    ].includes(node.operatorToken.kind)) {
+        return 'inside a conditional';
+    }
+    if (ts.isIterationStatement(node, false)) {
+        return 'inside a loop';
+    }
+    if (ts.isTryStatement(node) || (ts.isBlock(node) && (ts.isSourceFile(node.parent) || ts.isBlock(node.parent)))) {
+        return 'inside a block';
+    }
+    if (ts.isClassLike(node)) {
+        return 'inside a class';
+    }
+    return null;
+}
+
+function getUnusedName(base: string, script: string): string {
+    let name = base;
+    for (let i = 2; new RegExp(`\\b${name}\\b`).test(script); i++) {
+        name = `${base}${i}`;
+    }
+    return name;
+}
+
+function buildHoistEdits(
+    document: ZenithTextDocumentLike,
+    block: ZenRawBlock,
+    source: ts.SourceFile,
+    call: ts.CallExpression,
+    hookName: string
+): RouterHookCodeActionData['edits'] {
+    let topLevel: ts.Node = call;
+    while (topLevel.parent && topLevel.parent !== source) {
+        topLevel = topLevel.parent;
+    }
+
+    const text = document.getText();
+    const base = block.contentStart;
+    const lineStart = text.lastIndexOf('\n', base + topLevel.getStart(source) - 1) + 1;
+    const indent = text.slice(lineStart, base + topLevel.getStart(source)).match(/^[ \t]*/)?.[0] ?? '';
+    const insertAt = { start: document.positionAt(lineStart), end: document.positionAt(lineStart) };
+
+    // `const route = useRoute()` on its own: move the whole declaration.
+    const declaration = call.parent;
+    const statement = declaration?.parent?.parent;
+    if (
+        ts.isVariableDeclaration(declaration) && declaration.initializer === call &&
+        ts.isVariableDeclarationList(declaration.parent) && declaration.parent.declarations.length === 1 &&
+        statement && ts.isVariableStatement(statement)
+    ) {
+        const start = base + statement.getStart(source);
+        const end = base + statement.getEnd();
+        const statementLineStart = text.lastIndexOf('\n', start - 1) + 1;
+        const trailing = text.slice(end).match(/^[ \t]*(?:\n|$)/)?.[0];
+
+        // Remove the statement's whole line when nothing else is on it.
+        const ownLine = /^[ \t]*$/.test(text.slice(statementLineStart, start)) && trailing !== undefined;
+        const removeStart = ownLine ? statementLineStart : start;
+        const removeEnd = ownLine ? end + trailing!.length : end;
+
+        return [
+            { range: insertAt, newText: `${indent}${statement.getText(source)}\n` },
+            { range: { start: document.positionAt(removeStart), end: document.positionAt(removeEnd) }, newText: '' }
+        ];
+    }
+
+    // Otherwise bind the hook result at top level and use the binding.
+    const name = getUnusedName(hookName === 'useRouter' ? 'router' : 'route', source.text);
+    return [
+        { range: insertAt, newText: `${indent}const ${name} = ${call.getText(source)};\n` },
+        {
+            range: { start: document.positionAt(base + call.getStart(source)), end: document.positionAt(base + call.getEnd()) },
+            newText: name
+        }
+    ];
+}
+
+/**
+ * Router hooks called below top-level script scope, or without an import.
+ */
+export function collectRouterHookDiagnostics(document: ZenithTextDocumentLike, doc: ZenDocument): ZenithDiagnostic[] {
+    const diagnostics: ZenithDiagnostic[] = [];
+    const symbols = collectScriptSymbols(doc);
+
+    // Local name -> hook name. Hooks are recognized by their own names too,
+    // so a missing import can be reported.
+    const hooks = new Map<string, string>(Object.keys(ROUTER_HOOKS).map((name) => [name, name]));
+    for (const binding of symbols.imports) {
+        if (binding.module === ROUTER_MODULE && binding.imported in ROUTER_HOOKS) {
+            hooks.set(binding.name, binding.imported);
+        }
+    }
+
+    const imported = new Set(symbols.imports.filter((binding) => binding.module === ROUTER_MODULE).map((binding) => binding.name));
+    const declaredLocally = new Set([
+        ...symbols.functions.map((func) => func.name),
+        ...symbols.imports.filter((binding) => binding.module !== ROUTER_MODULE).map((binding) => binding.name)
+    ]);
+
+    for (const block of doc.scripts) {
+        const source = ts.createSourceFile('hooks.ts', desugarStateDeclarations(block.content), ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+
+        const visit = (node: ts.Node): void => {
+            if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && hooks.has(node.expression.text)) {
+                const localName = node.expression.text;
+                const hookName = hooks.get(localName)!;
+                const range = {
+                    start: document.positionAt(block.contentStart + node.expression.getStart(source)),
+                    end: document.positionAt(block.contentStart + node.expression.getEnd())
+                };
+
+                if (!imported.has(localName) && !declaredLocally.has(localName)) {
+                    diagnostics.push({
+                        severity: DiagnosticSeverity.Warning,
+                        range,
+                        message: `${hookName}() is used without an import from '${ROUTER_MODULE}'.`,
+                        source: 'zenith',
+                        code: ROUTER_HOOK_IMPORT_DIAGNOSTIC_CODE,
+                        data: getAutoImportData(document, doc, hookName)
+                    });
+                }
+
+                let reason: string | null = null;
+                for (let parent = node.parent; parent && parent !== source && !reason; parent = parent.parent) {
+                    reason = getNestingReason(parent);
+                }
+
+                if (reason && !declaredLocally.has(localName)) {
+                    const data: RouterHookCodeActionData = {
+                        title: `Hoist ${hookName}() to top-level script scope`,
+                        edits: buildHoistEdits(document, block, source, node, hookName)
+                    };
+
+                    diagnostics.push({
+                        severity: DiagnosticSeverity.Error,
+                        range,
+                        message: `${hookName}() is called ${reason}. ${ROUTER_HOOKS[hookName].restrictions}`,
+                        source: 'zenith',
+                        code: ROUTER_HOOK_PLACEMENT_DIAGNOSTIC_CODE,
+                        data
+                    });
+                }
+            }
+
+            ts.forEachChild(node, visit);
+        };
+        visit(source);
+    }
+
+    return diagnostics;
+}
@@ -4,7 +4,8 @@
  * Special support for Zenith Router features.
  * The LSP provides router-aware completions and hovers when zenith/router is imported.
  * 
- * Important: No route file system assumptions or runtime navigation simulation.
+ * Important: No runtime navigation simulation. The route table itself
+ * comes from the pages directory (see routes.ts).
  */
 
 export interface RouterHookMetadata {
@@ -0,0 +1,313 @@
+/**
+ * Route Table
+ *
+ * Derives the routes of a project from its pages directory, following
+ * the compiler's file-based routing:
+ * - `index.zen` maps to its directory (`pages/docs/index.zen` -> `/docs`)
+ * - `[param]` is a dynamic segment matching one path segment
+ * - `[...param]` is a catch-all matching one or more segments, and
+ *   `[[...param]]` an optional catch-all matching zero or more
+ *
+ * Each route also records the layout its page renders into: the first
+ * layout tag in the page template.
+ *
+ * Links are checked against the table: `<ZenLink to="...">` values and
+ * string arguments of the router's navigation functions.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getTemplateCodeSpans, parseZenDocument, type ZenDocument } from './parser';
+import type { ComponentInfo } from './project';
+import { collectScriptSymbols } from './script-symbols';
+import { findClosestMatches } from './suggestions';
+
+export type RouteSegmentKind = 'static' | 'dynamic' | 'catch-all' | 'optional-catch-all';
+
+export interface RouteSegment {
+    kind: RouteSegmentKind;
+    /** Segment as written in the file path, e.g. `[slug]`. */
+    value: string;
+    /** Parameter name for dynamic and catch-all segments. */
+    param?: string;
+}
+
+export interface ZenithRoute {
+    /** URL pattern, e.g. `/blog/[slug]`. */
+    path: string;
+    segments: RouteSegment[];
+    /** Names of the dynamic and catch-all parameters, in path order. */
+    params: string[];
+    filePath: string;
+    /** Name of the layout the page renders into, if any. */
+    layout: string | null;
+}
+
+/**
+ * Classify one segment of a page path.
+ */
+export function parseRouteSegment(value: string): RouteSegment {
+    const optionalCatchAll = value.match(/^\[\[\.\.\.([^\]]+)\]\]$/);
+    if (optionalCatchAll) {
+        return { kind: 'optional-catch-all', value, param: optionalCatchAll[1] };
+    }
+
+    const catchAll = value.match(/^\[\.\.\.([^\]]+)\]$/);
+    if (catchAll) {
+        return { kind: 'catch-all', value, param: catchAll[1] };
+    }
+
+    const dynamic = value.match(/^\[([^\]]+)\]$/);
+    if (dynamic) {
+        return { kind: 'dynamic', value, param: dynamic[1] };
+    }
+
+    return { kind: 'static', value };
+}
+
+/**
+ * Path of a page relative to the pages directory, without the extension
+ * (`blog/[slug]`). Unique per page, unlike the file basename.
+ */
+export function getPageKey(pagesDir: string, filePath: string): string {
+    return path.relative(pagesDir, filePath).replace(/\\/g, '/').replace(/\.zen$/, '');
+}
+
+/**
+ * Derive a page's route path from its location under the pages directory.
+ */
+export function getPageRoutePath(pagesDir: string, filePath: string): string {
+    const segments = getPageKey(pagesDir, filePath).split('/').filter((segment) => segment && segment !== 'index');
+    return `/${segments.join('/')}`;
+}
+
+/**
+ * Name of the first layout tag in a page, or null.
+ */
+export function findPageLayout(text: string, layouts: Map<string, ComponentInfo>): string | null {
+    const element = parseZenDocument(text).elements.find((candidate) => layouts.has(candidate.tagName));
+    return element?.tagName ?? null;
+}
+
+const SEGMENT_RANK: Record<RouteSegmentKind, number> = {
+    static: 0,
+    dynamic: 1,
+    'catch-all': 2,
+    'optional-catch-all': 3
+};
+
+/**
+ * Order routes segment by segment: static before dynamic before
+ * catch-all (the order the router tries them), then by name.
+ */
+export function compareRoutes(a: ZenithRoute, b: ZenithRoute): number {
+    const length = Math.min(a.segments.length, b.segments.length);
+    for (let i = 0; i < length; i++) {
+        const rank = SEGMENT_RANK[a.segments[i].kind] - SEGMENT_RANK[b.segments[i].kind];
+        if (rank !== 0) return rank;
+
+        const name = a.segments[i].value.localeCompare(b.segments[i].value);
+        if (name !== 0) return name;
+    }
+
+    return a.segments.length - b.segments.length;
+}
+
+/**
+ * Build the route table of a project from its discovered pages.
+ */
+export function buildRouteTable(
+    pagesDir: string,
+    pages: Iterable<ComponentInfo>,
+    layouts: Map<string, ComponentInfo>
+): ZenithRoute[] {
+    const routes: ZenithRoute[] = [];
+
+    for (const page of pages) {
+        const routePath = getPageRoutePath(pagesDir, page.filePath);
+        const segments = routePath.split('/').filter(Boolean).map(parseRouteSegment);
+
+        let layout: string | null = null;
+        try {
+            layout = findPageLayout(fs.readFileSync(page.filePath, 'utf-8'), layouts);
+        } catch {
+            // Unreadable pages still route; they just have no known layout.
+        }
+
+        routes.push({
+            path: routePath,
+            segments,
+            params: segments.flatMap((segment) => (segment.param ? [segment.param] : [])),
+            filePath: page.filePath,
+            layout
+        });
+    }
+
+    return routes.sort(compareRoutes);
+}
+
+/**
+ * Path segments of a URL, without query string or hash.
+ */
+function splitUrlPath(url: string): string[] {
+    return url.replace(/[?#].*$/, '').split('/').filter(Boolean);
+}
+
+function matchSegments(segments: RouteSegment[], parts: string[]): boolean {
+    if (segments.length === 0) {
+        return parts.length === 0;
+    }
+
+    const [segment, ...rest] = segments;
+    switch (segment.kind) {
+        case 'static':
+            return parts[0] === segment.value && matchSegments(rest, parts.slice(1));
+        case 'dynamic':
+            return parts.length > 0 && matchSegments(rest, parts.slice(1));
+        case 'catch-all':
+            return parts.length > 0;
+        case 'optional-catch-all':
+            return true;
+    }
+}
+
+/**
+ * The route a URL path navigates to, or null. Dynamic and catch-all
+ * segments match any value.
+ */
+export function matchRoute(routes: ZenithRoute[], url: string): ZenithRoute | null {
+    const parts = splitUrlPath(url);
+    return routes.find((route) => matchSegments(route.segments, parts)) ?? null;
+}
+
+/**
+ * Fill a route's dynamic segments from a URL so it can be compared with
+ * the URL as written (`/blog/[slug]` against `/blgo/hello` gives `/blog/hello`).
+ */
+function instantiateRoute(route: ZenithRoute, parts: string[]): string {
+    const filled: string[] = [];
+
+    for (let i = 0; i < route.segments.length; i++) {
+        const segment = route.segments[i];
+        if (segment.kind === 'static') {
+            filled.push(segment.value);
+        } else if (segment.kind === 'dynamic') {
+            filled.push(parts[i] ?? segment.value);
+        } else {
+            const rest = parts.slice(i).join('/');
+            if (rest || segment.kind === 'catch-all') filled.push(rest || segment.value);
+            break;
+        }
+    }
+
+    return `/${filled.join('/')}`;
+}
+
+/**
+ * Route paths close to an unmatched URL path, closest first.
+ */
+export function suggestRoutes(routes: ZenithRoute[], url: string, limit = 3): string[] {
+    const urlPath = url.replace(/[?#].*$/, '');
+    const parts = splitUrlPath(urlPath);
+    const candidates = new Set(routes.map((route) => instantiateRoute(route, parts)));
+
+    return findClosestMatches(urlPath, candidates, Math.max(2, Math.floor(urlPath.length / 3))).slice(0, limit);
+}
+
+export interface RouteReference {
+    /** The path as written, including any query string or hash. */
+    path: string;
+    /** Offsets of the path inside its quotes. */
+    start: number;
+    end: number;
+    /** `ZenLink` for `to` attributes, otherwise the router function called. */
+    source: string;
+}
+
+/**
+ * Router functions whose first argument is a route path.
+ */
+export const ROUTE_TARGET_FUNCTIONS: readonly string[] = ['navigate', 'prefetch'];
+
+const ROUTER_MODULE = 'zenith/router';
+
+function scanRouteCalls(
+    code: string,
+    baseOffset: number,
+    functions: Map<string, string>,
+    memberFunctions: readonly string[],
+    references: RouteReference[]
+): void {
+    const callPattern = /(\.\s*)?\b([a-zA-Z_$][\w$]*)\s*\(\s*(['"`])([^'"`\n]*)\3/dg;
+    let match: RegExpExecArray | null;
+
+    while ((match = callPattern.exec(code)) !== null) {
+        const callee = match[1]
+            ? (memberFunctions.includes(match[2]) ? match[2] : undefined)
+            : functions.get(match[2]);
+        const value = match[4];
+
+        if (!callee || value.includes('${') || !match.indices?.[4]) continue;
+
+        references.push({
+            path: value,
+            start: baseOffset + match.indices[4][0],
+            end: baseOffset + match.indices[4][1],
+            source: callee
+        });
+    }
+}
+
+/**
+ * Literal route paths in a document: quoted `<ZenLink to>` values and
+ * string arguments of the given functions imported from zenith/router
+ * (also called as methods, e.g. `router.navigate('/')`).
+ */
+export function collectRouteReferences(
+    doc: ZenDocument,
+    functionNames: readonly string[] = ROUTE_TARGET_FUNCTIONS
+): RouteReference[] {
+    const references: RouteReference[] = [];
+
+    for (const element of doc.elements) {
+        if (element.tagName !== 'ZenLink') continue;
+
+        const to = element.attributes.find((attribute) => attribute.name === 'to');
+        if (to?.value !== null && to?.value !== undefined && (to.quote === '"' || to.quote === "'")) {
+            references.push({ path: to.value, start: to.valueStart, end: to.valueEnd, source: 'ZenLink' });
+        }
+    }
+
+    const routerImports = collectScriptSymbols(doc).imports.filter((binding) => binding.module === ROUTER_MODULE);
+    if (routerImports.length === 0) {
+        return references;
+    }
+
+    const functions = new Map<string, string>();
+    for (const binding of routerImports) {
+        if (functionNames.includes(binding.imported)) {
+            functions.set(binding.name, binding.imported);
+        }
+    }
+    const memberFunctions = routerImports.some((binding) => binding.imported === 'useRouter' || binding.imported === '*')
+        ? functionNames
+        : [];
+
+    for (const block of doc.scripts) {
+        scanRouteCalls(block.content, block.contentStart, functions, memberFunctions, references);
+    }
+    for (const span of getTemplateCodeSpans(doc)) {
+        scanRouteCalls(span.code, span.start, functions, memberFunctions, references);
+    }
+
+    return references.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Whether a link target is an internal absolute path that must match a
+ * route (external URLs, protocol-relative, relative and hash links are not).
+ */
+export function isInternalRoutePath(value: string): boolean {
+    return value.startsWith('/') && !value.startsWith('//');
+}
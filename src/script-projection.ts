@@ -0,0 +1,200 @@
+/**
+ * Script Projection
+ *
+ * Generates the virtual TypeScript file behind a .zen document: the
+ * <script> blocks followed by a block holding every template expression.
+ * Zenith-only syntax is desugared in place without changing lengths
+ * (`state x = 1` becomes `let   x = 1`), so offsets map back to the .zen
+ * file segment by segment.
+ *
+ * zen:for bodies are projected as callbacks of `__zenithFor(source, ...)`
+ * so loop variables take their type from the loop source.
+ */
+
+import { parseForExpression } from './metadata/directive-metadata';
+import { isExpressionAttribute, type ZenAttribute, type ZenDocument, type ZenNode } from './parser';
+import { extractStates } from './script-symbols';
+
+export interface ProjectionMapping {
+    /** Offset in the .zen document. */
+    sourceStart: number;
+    /** Offset in the generated code. */
+    generatedStart: number;
+    length: number;
+}
+
+export interface ScriptProjection {
+    code: string;
+    mappings: ProjectionMapping[];
+    /** Generated offset where the template block starts. */
+    templateStart: number;
+}
+
+/**
+ * Declaration of the loop helper used by projected zen:for bodies.
+ */
+export const TEMPLATE_HELPER_DECLARATIONS = `
+declare function __zenithFor<T>(source: Iterable<T> | ArrayLike<T> | null | undefined, body: (item: T, index: number) => void): void;
+declare function __zenithFor(source: any, body: (item: any, index: number) => void): void;
+`;
+
+/**
+ * Replace `state` keywords of state declarations with `let` padded to the
+ * same length.
+ */
+export function desugarStateDeclarations(script: string): string {
+    let result = script;
+
+    for (const state of extractStates(script).values()) {
+        const keyword = result.lastIndexOf('state', state.offset);
+        if (keyword >= 0) {
+            result = `${result.slice(0, keyword)}let  ${result.slice(keyword + 5)}`;
+        }
+    }
+
+    return result;
+}
+
+interface ProjectionBuilder {
+    code: string;
+    mappings: ProjectionMapping[];
+}
+
+function emitMapped(builder: ProjectionBuilder, code: string, sourceStart: number): void {
+    builder.mappings.push({ sourceStart, generatedStart: builder.code.length, length: code.length });
+    builder.code += code;
+}
+
+/**
+ * Markup inside an expression is reported by the expression diagnostics
+ * and cannot be type-checked as TypeScript.
+ */
+function isProjectableCode(code: string): boolean {
+    return code.trim().length > 0 && !/<[A-Za-z/!]/.test(code);
+}
+
+function isEventHandler(attribute: ZenAttribute): boolean {
+    return attribute.kind === 'event' || /^on[a-z]/.test(attribute.name);
+}
+
+function emitAttribute(builder: ProjectionBuilder, attribute: ZenAttribute): void {
+    if (attribute.value === null || !isExpressionAttribute(attribute) || !isProjectableCode(attribute.value)) {
+        return;
+    }
+
+    // Handlers may be statements (`count++; save()`), so they get a function body.
+    const [open, close] = isEventHandler(attribute) ? ['(() => {', '\n});\n'] : ['(', '\n);\n'];
+    builder.code += open;
+    emitMapped(builder, attribute.value, attribute.valueStart);
+    builder.code += close;
+}
+
+function emitTemplateNodes(builder: ProjectionBuilder, nodes: ZenNode[]): void {
+    for (const node of nodes) {
+        if (node.type === 'expression') {
+            if (isProjectableCode(node.content)) {
+                builder.code += '(';
+                emitMapped(builder, node.content, node.contentStart);
+                builder.code += '\n);\n';
+            }
+            continue;
+        }
+
+        if (node.type !== 'element') {
+            continue;
+        }
+
+        const loop = node.attributes.find((attribute) => attribute.name === 'zen:for');
+        const parsed = loop?.value ? parseForExpression(loop.value) : null;
+
+        if (loop && parsed) {
+            builder.code += '__zenithFor((';
+            emitMapped(builder, parsed.source, loop.valueStart + parsed.sourceOffset);
+            builder.code += '), (';
+            emitMapped(builder, parsed.itemVar, loop.valueStart + parsed.itemOffset);
+            if (parsed.indexVar && parsed.indexOffset !== undefined) {
+                builder.code += ', ';
+                emitMapped(builder, parsed.indexVar, loop.valueStart + parsed.indexOffset);
+            }
+            builder.code += ') => {\n';
+        }
+
+        for (const attribute of node.attributes) {
+            if (attribute !== loop) {
+                emitAttribute(builder, attribute);
+            }
+        }
+        emitTemplateNodes(builder, node.children);
+
+        if (loop && parsed) {
+            builder.code += '});\n';
+        }
+    }
+}
+
+/**
+ * Project a document's script blocks and template expressions into one
+ * TypeScript module.
+ */
+export function projectDocument(doc: ZenDocument): ScriptProjection {
+    const builder: ProjectionBuilder = { code: '', mappings: [] };
+
+    for (const block of doc.scripts) {
+        emitMapped(builder, desugarStateDeclarations(block.content), block.contentStart);
+        builder.code += '\n';
+    }
+
+    const templateStart = builder.code.length;
+    builder.code += '{\n';
+    emitTemplateNodes(builder, doc.children);
+    builder.code += '}\n';
+
+    // Each .zen file is its own module scope.
+    builder.code += 'export {};\n';
+
+    return { code: builder.code, mappings: builder.mappings, templateStart };
+}
+
+/**
+ * Map a .zen document offset into the generated code.
+ * Segment ends are inclusive so a cursor at the end of a block still maps.
+ */
+export function toGeneratedOffset(projection: ScriptProjection, sourceOffset: number): number | null {
+    for (const mapping of projection.mappings) {
+        if (sourceOffset >= mapping.sourceStart && sourceOffset <= mapping.sourceStart + mapping.length) {
+            return mapping.generatedStart + (sourceOffset - mapping.sourceStart);
+        }
+    }
+    return null;
+}
+
+/**
+ * Map a generated code offset back to the .zen document.
+ */
+export function toSourceOffset(projection: ScriptProjection, generatedOffset: number): number | null {
+    for (const mapping of projection.mappings) {
+        if (generatedOffset >= mapping.generatedStart && generatedOffset <= mapping.generatedStart + mapping.length) {
+            return mapping.sourceStart + (generatedOffset - mapping.generatedStart);
+        }
+    }
+    return null;
+}
+
+/**
+ * Map a generated span back to the .zen document. Spans that cross a
+ * segment boundary or fall in generated-only code do not map.
+ */
+export function toSourceSpan(
+    projection: ScriptProjection,
+    generatedStart: number,
+    length: number
+): { start: number; end: number } | null {
+    for (const mapping of projection.mappings) {
+        const segmentEnd = mapping.generatedStart + mapping.length;
+        if (generatedStart >= mapping.generatedStart && generatedStart + length <= segmentEnd) {
+            const start = mapping.sourceStart + (generatedStart - mapping.generatedStart);
+            return { start, end: start + length };
+        }
+    }
+    return null;
+}
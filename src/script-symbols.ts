@@ -0,0 +1,266 @@
+/**
+ * Script Symbols
+ *
+ * Static extraction of the names a .zen script declares: `state`
+ * variables, functions and import bindings. Offsets are absolute when a
+ * base offset (the script block's content start) is supplied.
+ */
+
+import { parseZenithImports } from './imports';
+import type { ZenDocument } from './parser';
+
+export interface ScriptState {
+    name: string;
+    value: string;
+    /** Type annotation, when declared (`state count: number = 0`). */
+    type?: string;
+    offset: number;
+}
+
+export interface ScriptFunction {
+    name: string;
+    params: string;
+    isAsync: boolean;
+    offset: number;
+}
+
+export interface ScriptImportBinding {
+    /** Local name bound by the import. */
+    name: string;
+    /** Exported name (differs from `name` for `a as b`; 'default' / '*' for default and namespace imports). */
+    imported: string;
+    module: string;
+    isType: boolean;
+    offset: number;
+}
+
+export interface ScriptSymbols {
+    states: Map<string, ScriptState>;
+    functions: ScriptFunction[];
+    imports: ScriptImportBinding[];
+}
+
+/**
+ * Extract `state name = value` declarations, with or without a type
+ * annotation (`state name: Type = value`).
+ */
+export function extractStates(script: string, baseOffset = 0): Map<string, ScriptState> {
+    const states = new Map<string, ScriptState>();
+    const statePattern = /state\s+([a-zA-Z_$][a-zA-Z0-9_$]*)(?:\s*:\s*((?:=>|[^=;\n])+?))?\s*=(?!>)\s*([^;\n]+)/dg;
+    let match: RegExpExecArray | null;
+
+    while ((match = statePattern.exec(script)) !== null) {
+        if (match[1] && match[3] && match.indices?.[1]) {
+            states.set(match[1], {
+                name: match[1],
+                value: match[3].trim(),
+                ...(match[2] ? { type: match[2].trim() } : {}),
+                offset: baseOffset + match.indices[1][0]
+            });
+        }
+    }
+
+    return states;
+}
+
+/**
+ * Extract function declarations and arrow functions assigned to const/let.
+ */
+export function extractFunctions(script: string, baseOffset = 0): ScriptFunction[] {
+    const functions: ScriptFunction[] = [];
+    const funcPattern = /(async\s+)?function\s+([a-zA-Z_$][a-zA-Z0-9_$]*)\s*\(([^)]*)\)/dg;
+    let match: RegExpExecArray | null;
+
+    while ((match = funcPattern.exec(script)) !== null) {
+        if (match[2] && match.indices?.[2]) {
+            functions.push({
+                name: match[2],
+                params: match[3] || '',
+                isAsync: !!match[1],
+                offset: baseOffset + match.indices[2][0]
+            });
+        }
+    }
+
+    // Arrow functions assigned to const/let
+    const arrowPattern = /(?:const|let)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)\s*=\s*(async\s+)?\([^)]*\)\s*=>/dg;
+    while ((match = arrowPattern.exec(script)) !== null) {
+        if (match[1] && match.indices?.[1]) {
+            functions.push({
+                name: match[1],
+                params: '',
+                isAsync: !!match[2],
+                offset: baseOffset + match.indices[1][0]
+            });
+        }
+    }
+
+    return functions;
+}
+
+/**
+ * Extract the local bindings introduced by import statements
+ * (default, namespace and named imports, including multi-line ones).
+ */
+export function extractImportBindings(script: string, baseOffset = 0): ScriptImportBinding[] {
+    const bindings: ScriptImportBinding[] = [];
+
+    for (const imp of parseZenithImports(script)) {
+        const binding = (name: string, imported: string, isType: boolean, offset: number) => {
+            bindings.push({ name, imported, module: imp.module, isType: imp.isType || isType, offset: baseOffset + offset });
+        };
+
+        if (imp.defaultImport !== undefined && imp.defaultImportStart !== undefined) {
+            binding(imp.defaultImport, 'default', false, imp.defaultImportStart);
+        }
+        if (imp.namespaceImport !== undefined && imp.namespaceImportStart !== undefined) {
+            binding(imp.namespaceImport, '*', false, imp.namespaceImportStart);
+        }
+        for (const specifier of imp.named) {
+            binding(specifier.local, specifier.name, specifier.isType, specifier.localStart);
+        }
+    }
+
+    return bindings;
+}
+
+/**
+ * Collect the symbols declared across every script block of a document.
+ * Offsets are absolute document offsets.
+ */
+export function collectScriptSymbols(doc: ZenDocument): ScriptSymbols {
+    const symbols: ScriptSymbols = { states: new Map(), functions: [], imports: [] };
+
+    for (const block of doc.scripts) {
+        for (const [name, state] of extractStates(block.content, block.contentStart)) {
+            symbols.states.set(name, state);
+        }
+        symbols.functions.push(...extractFunctions(block.content, block.contentStart));
+        symbols.imports.push(...extractImportBindings(block.content, block.contentStart));
+    }
+
+    return symbols;
+}
+
+export interface IdentifierReference {
+    name: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Scan JavaScript/TypeScript code for identifier references, skipping
+ * strings, comments, property accesses (`a.name`) and object literal
+ * keys (`{ name: 1 }`). Template literal `${}` bodies are scanned.
+ * Offsets are absolute when a base offset is supplied.
+ */
+export function scanIdentifiers(code: string, baseOffset = 0): IdentifierReference[] {
+    const references: IdentifierReference[] = [];
+    const templateDepths: number[] = [];
+    let braceDepth = 0;
+    let i = 0;
+
+    const previousSignificant = (index: number): string => {
+        let j = index - 1;
+        while (j >= 0 && /\s/.test(code[j])) j--;
+        return j >= 0 ? code[j] : '';
+    };
+
+    const nextSignificant = (index: number): string => {
+        let j = index;
+        while (j < code.length && /\s/.test(code[j])) j++;
+        return j < code.length ? code[j] : '';
+    };
+
+    const skipTemplateText = (index: number): number => {
+        // index is just past '`' or just past the '}' closing a `${}`
+        let j = index;
+        while (j < code.length) {
+            if (code[j] === '\\') {
+                j += 2;
+                continue;
+            }
+            if (code[j] === '`') {
+                return j + 1;
+            }
+            if (code[j] === '$' && code[j + 1] === '{') {
+                templateDepths.push(braceDepth);
+                braceDepth++;
+                return j + 2;
+            }
+            j++;
+        }
+        return code.length;
+    };
+
+    while (i < code.length) {
+        const ch = code[i];
+
+        if (ch === '/' && code[i + 1] === '/') {
+            const newline = code.indexOf('\n', i);
+            i = newline < 0 ? code.length : newline;
+            continue;
+        }
+
+        if (ch === '/' && code[i + 1] === '*') {
+            const close = code.indexOf('*/', i + 2);
+            i = close < 0 ? code.length : close + 2;
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            let j = i + 1;
+            while (j < code.length && code[j] !== ch && code[j] !== '\n') {
+                j += code[j] === '\\' ? 2 : 1;
+            }
+            i = j + 1;
+            continue;
+        }
+
+        if (ch === '`') {
+            i = skipTemplateText(i + 1);
+            continue;
+        }
+
+        if (ch === '{') {
+            braceDepth++;
+            i++;
+            continue;
+        }
+
+        if (ch === '}') {
+            braceDepth--;
+            i++;
+            if (templateDepths.length > 0 && templateDepths[templateDepths.length - 1] === braceDepth) {
+                templateDepths.pop();
+                i = skipTemplateText(i);
+            }
+            continue;
+        }
+
+        if (/[0-9]/.test(ch)) {
+            while (i < code.length && /[\w.]/.test(code[i])) i++;
+            continue;
+        }
+
+        if (/[a-zA-Z_$]/.test(ch)) {
+            const start = i;
+            while (i < code.length && /[\w$]/.test(code[i])) i++;
+            const name = code.slice(start, i);
+
+            const before = previousSignificant(start);
+            const isPropertyAccess = before === '.' && code[code.lastIndexOf('.', start) - 1] !== '.';
+            const isObjectKey = (before === '{' || before === ',') && nextSignificant(i) === ':' &&
+                code[code.indexOf(':', i) + 1] !== ':';
+
+            if (!isPropertyAccess && !isObjectKey) {
+                references.push({ name, start: baseOffset + start, end: baseOffset + i });
+            }
+            continue;
+        }
+
+        i++;
+    }
+
+    return references;
+}
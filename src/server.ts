@@ -19,13 +19,34 @@ import {
     CompletionItem,
     CompletionItemKind,
     TextDocumentPositionParams,
+    DefinitionParams,
+    ReferenceParams,
+    PrepareRenameParams,
+    RenameParams,
+    WorkspaceEdit,
+    ResponseError,
+    ErrorCodes,
+    Location,
+    Range,
+    DocumentSymbol,
+    DocumentSymbolParams,
+    SymbolInformation,
+    WorkspaceSymbolParams,
     CodeActionParams,
     CodeAction,
     TextDocumentSyncKind,
     InitializeResult,
     Hover,
     MarkupKind,
-    InsertTextFormat
+    InsertTextFormat,
+    SignatureHelp,
+    SignatureHelpParams,
+    ColorInformation,
+    ColorPresentation,
+    ColorPresentationParams,
+    DocumentColorParams,
+    DidChangeWatchedFilesNotification,
+    FileChangeType
 } from 'vscode-languageserver/node';
 
 import { TextDocument } from 'vscode-languageserver-textdocument';
@@ -35,7 +56,11 @@ import {
     detectProjectRoot,
     buildProjectGraph,
     resolveComponent,
-    ProjectGraph
+    getComponentImports,
+    getSourceDir,
+    updateProjectGraph,
+    ProjectGraph,
+    ProjectFileChangeType
 } from './project';
 
 import {
@@ -65,8 +90,41 @@ import {
     getZenLinkPropNames
 } from './router';
 
-import { collectDiagnostics } from './diagnostics';
-import { buildEventBindingCodeActions, buildDomLintCodeActions, buildWindowDocumentCodeActions } from './code-actions';
+import {
+    getParsedDocument,
+    getScriptContent,
+    findNodeAt,
+    findRawBlockAt,
+    findExpressionAt,
+    ZenDocument
+} from './parser';
+
+import { extractStates, extractFunctions } from './script-symbols';
+import { findDefinition } from './definition';
+import { findDependentDocuments, findReferences } from './references';
+import { prepareRename, rename } from './rename';
+import { buildDocumentSymbols } from './document-symbols';
+import { findWorkspaceSymbols } from './workspace-symbols';
+import type { RouteSegment } from './routes';
+import { getRouteCompletions } from './route-completion';
+import { getRouteParamCompletions, getRouteParamHover } from './route-params';
+import { getAutoImportCompletions } from './auto-import';
+import { filePathToUri, uriToFilePath } from './uri';
+import { clearResolutionCaches, getImportPathCompletions, importsFile } from './module-resolution';
+import {
+    closeScriptDocument,
+    getScriptCompletions,
+    getScriptHover,
+    getScriptSignatureHelp,
+    resolveScriptCompletion,
+    type ZenithScriptCompletionItem
+} from './typescript-service';
+import { formatPropSignature, formatPropsMarkdown } from './component-props';
+import { getStyleColorPresentations, getStyleColors, getStyleCompletions, getStyleHover } from './css-service';
+import { collectDiagnostics, type ZenithDiagnostic } from './diagnostics';
+import { buildEventBindingCodeActions, buildDomLintCodeActions, buildPropCodeActions, buildAmbiguousComponentCodeActions, buildRouteCodeActions, buildRouterHookCodeActions, buildAutoImportCodeActions, buildUnusedSymbolCodeActions, buildWindowDocumentCodeActions } from './code-actions';
+import { buildOrganizeImportsCodeAction, ORGANIZE_IMPORTS_KIND } from './organize-imports';
+import { createFileWatcher, isWatchedFile, WATCHED_FILE_GLOBS, type FileWatcher } from './file-watcher';
 import { DEFAULT_SETTINGS, normalizeSettings, ZenithServerSettings } from './settings';
 
 // Create connection and document manager
@@ -77,6 +135,11 @@ const documents = new TextDocuments(TextDocument);
 let projectGraphs: Map<string, ProjectGraph> = new Map();
 let workspaceFolders: string[] = [];
 let globalSettings: ZenithServerSettings = DEFAULT_SETTINGS;
+let clientSupportsFileRename = false;
+let clientSupportsWatchedFiles = false;
+let clientSupportsConfiguration = false;
+let initializationSettings: Record<string, unknown> = {};
+let builtinWatcher: FileWatcher | null = null;
 
 // Lifecycle hooks and platform primitives with documentation
 const LIFECYCLE_HOOKS = [
@@ -157,77 +220,26 @@ const DOM_EVENTS = [
     'focus', 'blur', 'mouseover', 'mouseout', 'mouseenter', 'mouseleave'
 ];
 
-// State analysis
-function extractStates(script: string): Map<string, string> {
-    const states = new Map<string, string>();
-    const statePattern = /state\s+([a-zA-Z_$][a-zA-Z0-9_$]*)\s*=\s*([^;\n]+)/g;
-    let match;
-
-    while ((match = statePattern.exec(script)) !== null) {
-        if (match[1] && match[2]) {
-            states.set(match[1], match[2].trim());
-        }
-    }
-
-    return states;
-}
-
-// Extract functions from script
-function extractFunctions(script: string): Array<{ name: string, params: string, isAsync: boolean }> {
-    const functions: Array<{ name: string, params: string, isAsync: boolean }> = [];
-    const funcPattern = /(async\s+)?function\s+([a-zA-Z_$][a-zA-Z0-9_$]*)\s*\(([^)]*)\)/g;
-    let match;
-
-    while ((match = funcPattern.exec(script)) !== null) {
-        if (match[2]) {
-            functions.push({
-                name: match[2],
-                params: match[3] || '',
-                isAsync: !!match[1]
-            });
-        }
-    }
-
-    // Arrow functions assigned to const/let
-    const arrowPattern = /(?:const|let)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)\s*=\s*(async\s+)?\([^)]*\)\s*=>/g;
-    while ((match = arrowPattern.exec(script)) !== null) {
-        if (match[1]) {
-            functions.push({
-                name: match[1],
-                params: '',
-                isAsync: !!match[2]
-            });
-        }
-    }
-
-    return functions;
-}
-
 // Extract loop variables from zen:for directives
-function extractLoopVariables(text: string): string[] {
+function extractLoopVariables(doc: ZenDocument): string[] {
     const vars: string[] = [];
-    const loopPattern = /zen:for\s*=\s*["']([^"']+)["']/g;
-    let match;
 
-    while ((match = loopPattern.exec(text)) !== null) {
-        const parsed = parseForExpression(match[1]);
-        if (parsed) {
-            vars.push(parsed.itemVar);
-            if (parsed.indexVar) vars.push(parsed.indexVar);
+    for (const element of doc.elements) {
+        for (const attribute of element.attributes) {
+            if (attribute.name !== 'zen:for' || !attribute.value) continue;
+            const parsed = parseForExpression(attribute.value);
+            if (parsed) {
+                vars.push(parsed.itemVar);
+                if (parsed.indexVar) vars.push(parsed.indexVar);
+            }
         }
     }
 
     return vars;
 }
 
-// Get script content from document
-function getScriptContent(text: string): string {
-    const match = text.match(/<script[^>]*>([\s\S]*?)<\/script>/i);
-    return match ? match[1] : '';
-}
-
 // Check position context
-function getPositionContext(text: string, offset: number): {
+function getPositionContext(doc: ZenDocument, offset: number): {
     inScript: boolean;
     inStyle: boolean;
     inTag: boolean;
@@ -239,38 +251,23 @@ function getPositionContext(text: string, offset: number): {
     afterAt: boolean;
     afterColon: boolean;
 } {
-    const before = text.substring(0, offset);
+    const before = doc.text.substring(0, offset);
 
-    const scriptOpens = (before.match(/<script[^>]*>/gi) || []).length;
-    const scriptCloses = (before.match(/<\/script>/gi) || []).length;
-    const inScript = scriptOpens > scriptCloses;
+    const rawBlock = findRawBlockAt(doc, offset);
+    const inScript = rawBlock?.type === 'script';
+    const inStyle = rawBlock?.type === 'style';
 
-    const styleOpens = (before.match(/<style[^>]*>/gi) || []).length;
-    const styleCloses = (before.match(/<\/style>/gi) || []).length;
-    const inStyle = styleOpens > styleCloses;
+    const at = findNodeAt(doc, offset);
+    const inTag = !rawBlock && at.inStartTag && !!at.element;
 
-    const lastTagOpen = before.lastIndexOf('<');
-    const lastTagClose = before.lastIndexOf('>');
-    const inTag = lastTagOpen > lastTagClose;
-
-    const lastBraceOpen = before.lastIndexOf('{');
-    const lastBraceClose = before.lastIndexOf('}');
-    const inExpression = lastBraceOpen > lastBraceClose && !inScript && !inStyle;
+    const inExpression = !inScript && !inStyle && !!findExpressionAt(doc, offset);
 
     const inTemplate = !inScript && !inStyle;
 
-    // Check if inside attribute value
-    const afterLastTag = before.substring(lastTagOpen);
-    const quoteMatch = afterLastTag.match(/=["'][^"']*$/);
-    const inAttributeValue = inTag && !!quoteMatch;
+    // Check if inside a quoted attribute value
+    const inAttributeValue = inTag && at.inAttributeValue && at.attribute?.quote !== '{';
 
-    let tagName: string | null = null;
-    if (inTag) {
-        const tagMatch = before.substring(lastTagOpen).match(/<\/?([A-Za-z][A-Za-z0-9-]*)/);
-        if (tagMatch) {
-            tagName = tagMatch[1];
-        }
-    }
+    const tagName = inTag && at.element ? at.element.tagName : null;
 
     // Get current word being typed
     const wordMatch = before.match(/[a-zA-Z_$:@][a-zA-Z0-9_$:-]*$/);
@@ -285,7 +282,7 @@ function getPositionContext(text: string, offset: number): {
 
 // Get project graph for a document
 function getProjectGraph(docUri: string): ProjectGraph | null {
-    const filePath = docUri.replace('file://', '');
+    const filePath = uriToFilePath(docUri);
     const projectRoot = detectProjectRoot(path.dirname(filePath), workspaceFolders);
 
     if (!projectRoot) {
@@ -301,20 +298,79 @@ function getProjectGraph(docUri: string): ProjectGraph | null {
 
 // Invalidate project graph on file changes
 function invalidateProjectGraph(uri: string) {
-    const filePath = uri.replace('file://', '');
+    const filePath = uriToFilePath(uri);
     const projectRoot = detectProjectRoot(path.dirname(filePath), workspaceFolders);
     if (projectRoot) {
         projectGraphs.delete(projectRoot);
     }
 }
 
+const FILE_CHANGE_TYPES: Record<number, ProjectFileChangeType> = {
+    [FileChangeType.Created]: 'created',
+    [FileChangeType.Changed]: 'changed',
+    [FileChangeType.Deleted]: 'deleted'
+};
+
+/**
+ * Apply a watched-file event to the cached graph of its project and
+ * return the open documents to revalidate. .zen files update a single
+ * graph entry and CSS files only affect the documents importing them.
+ * package.json and tsconfig/jsconfig changes clear the resolution caches;
+ * only zenith.config changes (source directories) drop the graph.
+ */
+function applyWatchedFileChange(uri: string, type: ProjectFileChangeType): TextDocument[] {
+    const filePath = uriToFilePath(uri);
+    // LSP globs cannot exclude directories, so node_modules events are dropped here.
+    if (!isWatchedFile(filePath)) {
+        return [];
+    }
+
+    const projectRoot = detectProjectRoot(path.dirname(filePath), workspaceFolders);
+    const graph = projectRoot ? projectGraphs.get(projectRoot) : undefined;
+    if (!projectRoot || !graph) {
+        return [];
+    }
+
+    const projectDocuments = documents.all().filter((doc) =>
+        detectProjectRoot(path.dirname(uriToFilePath(doc.uri)), workspaceFolders) === projectRoot);
+
+    if (filePath.endsWith('.zen')) {
+        const change = updateProjectGraph(graph, filePath, type);
+        return change ? findDependentDocuments(change, projectDocuments) : [];
+    }
+
+    if (filePath.endsWith('.css')) {
+        return projectDocuments.filter((doc) =>
+            importsFile(getParsedDocument(doc.uri, doc.getText()), uriToFilePath(doc.uri), projectRoot, filePath));
+    }
+
+    if (/^zenith\.config\./.test(path.basename(filePath))) {
+        invalidateProjectGraph(uri);
+    } else {
+        clearResolutionCaches();
+    }
+    return projectDocuments;
+}
+
 connection.onInitialize((params: InitializeParams): InitializeResult => {
     workspaceFolders = (params.workspaceFolders || [])
-        .map((folder) => folder.uri.replace('file://', ''));
+        .map((folder) => uriToFilePath(folder.uri));
     if (workspaceFolders.length === 0 && params.rootUri) {
-        workspaceFolders = [params.rootUri.replace('file://', '')];
+        workspaceFolders = [uriToFilePath(params.rootUri)];
     }
 
+    const workspaceEditCapabilities = params.capabilities.workspace?.workspaceEdit;
+    clientSupportsFileRename = !!workspaceEditCapabilities?.documentChanges &&
+        !!workspaceEditCapabilities.resourceOperations?.includes('rename');
+    const clientSupportsPrepareRename = !!params.capabilities.textDocument?.rename?.prepareSupport;
+    clientSupportsWatchedFiles = !!params.capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration;
+    clientSupportsConfiguration = !!params.capabilities.workspace?.configuration;
+
+    // Clients without a settings UI (Neovim) pass settings here.
+    const options = (params.initializationOptions?.zenith ?? params.initializationOptions) as unknown;
+    initializationSettings = typeof options === 'object' && options !== null ? options as Record<string, unknown> : {};
+    globalSettings = normalizeSettings(initializationSettings);
+
     return {
         capabilities: {
             textDocumentSync: TextDocumentSyncKind.Incremental,
@@ -323,13 +379,44 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
                 triggerCharacters: ['{', '<', '"', "'", '=', '.', ' ', ':', '(', '@']
             },
             hoverProvider: true,
-            codeActionProvider: true
+            signatureHelpProvider: {
+                triggerCharacters: ['(', ','],
+                retriggerCharacters: [')']
+            },
+            colorProvider: true,
+            definitionProvider: true,
+            referencesProvider: true,
+            renameProvider: clientSupportsPrepareRename ? { prepareProvider: true } : true,
+            documentSymbolProvider: true,
+            workspaceSymbolProvider: true,
+            codeActionProvider: {
+                codeActionKinds: ['quickfix', ORGANIZE_IMPORTS_KIND]
+            }
         }
     };
 });
 
-connection.onInitialized(() => {
+connection.onInitialized(async () => {
     connection.client.register(DidChangeConfigurationNotification.type);
+    if (clientSupportsWatchedFiles) {
+        connection.client.register(DidChangeWatchedFilesNotification.type, {
+            watchers: WATCHED_FILE_GLOBS.map((globPattern) => ({ globPattern }))
+        });
+    }
+
+    // Many clients never push configuration; pull it once so settings such
+    // as the built-in watcher apply from the start.
+    if (clientSupportsConfiguration) {
+        try {
+            const config = await connection.workspace.getConfiguration('zenith') as unknown;
+            if (typeof config === 'object' && config !== null) {
+                globalSettings = normalizeSettings({ ...initializationSettings, ...config });
+            }
+        } catch {
+            // Keep the initialization options.
+        }
+    }
+    updateBuiltinWatcher();
 });
 
 connection.onCompletion((params: TextDocumentPositionParams): CompletionItem[] => {
@@ -337,17 +424,36 @@ connection.onCompletion((params: TextDocumentPositionParams): CompletionItem[] =
     if (!document) return [];
 
     const text = document.getText();
+    const doc = getParsedDocument(document.uri, text);
     const offset = document.offsetAt(params.position);
-    const ctx = getPositionContext(text, offset);
+    const ctx = getPositionContext(doc, offset);
     const completions: CompletionItem[] = [];
 
+    // === STYLE CONTEXT ===
+    if (ctx.inStyle) {
+        return getStyleCompletions(document, offset)?.items ?? [];
+    }
+
     const graph = getProjectGraph(params.textDocument.uri);
-    const script = getScriptContent(text);
+
+    // === ROUTE STRINGS (ZenLink to, navigate/prefetch/isActive arguments) ===
+    const routeCompletions = graph ? getRouteCompletions(document, graph.routes, offset) : null;
+    if (routeCompletions) {
+        return routeCompletions as CompletionItem[];
+    }
+
+    // === ROUTE PARAMS (route.params. in a page with dynamic segments) ===
+    const paramCompletions = getRouteParamCompletions(document, offset);
+    if (paramCompletions) {
+        return paramCompletions as CompletionItem[];
+    }
+
+    const script = getScriptContent(doc);
     const states = extractStates(script);
     const functions = extractFunctions(script);
     const imports = parseZenithImports(script);
     const routerEnabled = hasRouterImport(imports);
-    const loopVariables = extractLoopVariables(text);
+    const loopVariables = extractLoopVariables(doc);
 
     // Get line content before cursor
     const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
@@ -439,13 +545,13 @@ connection.onCompletion((params: TextDocumentPositionParams): CompletionItem[] =
         }
 
         // State variables
-        for (const [name, value] of states) {
+        for (const [name, state] of states) {
             if (!ctx.currentWord || name.toLowerCase().startsWith(ctx.currentWord.toLowerCase())) {
                 completions.push({
                     label: name,
                     kind: CompletionItemKind.Variable,
                     detail: `state ${name}`,
-                    documentation: `Current value: ${value}`
+                    documentation: `Current value: ${state.value}`
                 });
             }
         }
@@ -462,18 +568,46 @@ connection.onCompletion((params: TextDocumentPositionParams): CompletionItem[] =
                     insertText: mod.module
                 });
             }
+
+            // Relative files, path aliases and installed packages
+            for (const item of getImportPathCompletions(document, offset, uriToFilePath(document.uri))) {
+                completions.push(item as CompletionItem);
+            }
+        }
+
+        // Core and plugin exports not imported yet; accepting one adds the import
+        if (!isImportPath) {
+            for (const item of getAutoImportCompletions(document, ctx.currentWord)) {
+                const existing = completions.find((candidate) => candidate.label === item.label);
+                if (existing) {
+                    existing.additionalTextEdits = item.additionalTextEdits;
+                } else {
+                    completions.push(item as CompletionItem);
+                }
+            }
+        }
+
+        // TypeScript completions for ordinary script code
+        const scriptCompletions = getScriptCompletions(document, offset);
+        if (scriptCompletions) {
+            const labels = new Set(completions.map((item) => item.label));
+            for (const item of scriptCompletions) {
+                if (!labels.has(item.label)) {
+                    completions.push(item as CompletionItem);
+                }
+            }
         }
     }
 
     // === EXPRESSION CONTEXT {  } ===
     if (ctx.inExpression) {
         // State variables
-        for (const [name, value] of states) {
+        for (const [name, state] of states) {
             completions.push({
                 label: name,
                 kind: CompletionItemKind.Variable,
                 detail: `state ${name}`,
-                documentation: `Value: ${value}`,
+                documentation: `Value: ${state.value}`,
                 sortText: `0_${name}`
             });
         }
@@ -522,12 +656,13 @@ connection.onCompletion((params: TextDocumentPositionParams): CompletionItem[] =
         if (graph && (isAfterOpenBracket || (isTypingTag && /^[A-Z]/.test(ctx.currentWord)))) {
             for (const [name, info] of graph.layouts) {
                 if (!ctx.currentWord || name.toLowerCase().startsWith(ctx.currentWord.toLowerCase())) {
-                    const propStr = info.props.length > 0 ? ` ${info.props[0]}="$1"` : '';
+                    const firstProp = info.props.find((prop) => prop.required) ?? info.props[0];
+                    const propStr = firstProp ? ` ${firstProp.name}="$1"` : '';
                     completions.push({
                         label: name,
                         kind: CompletionItemKind.Class,
                         detail: `layout`,
-                        documentation: { kind: MarkupKind.Markdown, value: `**Layout** from \`${path.basename(info.filePath)}\`\n\nProps: ${info.props.join(', ') || 'none'}` },
+                        documentation: { kind: MarkupKind.Markdown, value: `**Layout** from \`${path.relative(getSourceDir(graph.root), info.filePath)}\`\n\nProps: ${formatPropsMarkdown(info.props)}` },
                         insertText: isAfterOpenBracket
                             ? `${name}${propStr}>$0</${name}>`
                             : `<${name}${propStr}>$0</${name}>`,
@@ -537,13 +672,21 @@ connection.onCompletion((params: TextDocumentPositionParams): CompletionItem[] =
                 }
             }
 
-            for (const [name, info] of graph.components) {
+            // Nested components complete by their qualified name (FormsInput);
+            // explicitly imported .zen files by their local name.
+            const components = new Map(graph.components);
+            for (const [local, filePath] of getComponentImports(doc, uriToFilePath(document.uri))) {
+                const info = resolveComponent(graph, local, new Map([[local, filePath]]));
+                if (info?.type === 'component') components.set(local, info);
+            }
+
+            for (const [name, info] of components) {
                 if (!ctx.currentWord || name.toLowerCase().startsWith(ctx.currentWord.toLowerCase())) {
                     completions.push({
                         label: name,
                         kind: CompletionItemKind.Class,
                         detail: `component`,
-                        documentation: { kind: MarkupKind.Markdown, value: `**Component** from \`${path.basename(info.filePath)}\`\n\nProps: ${info.props.join(', ') || 'none'}` },
+                        documentation: { kind: MarkupKind.Markdown, value: `**Component** from \`${path.relative(getSourceDir(graph.root), info.filePath)}\`\n\nProps: ${formatPropsMarkdown(info.props)}` },
                         insertText: isAfterOpenBracket
                             ? `${name} $0/>`
                             : `<${name} $0/>`,
@@ -648,16 +791,22 @@ connection.onCompletion((params: TextDocumentPositionParams): CompletionItem[] =
 
         // Component props
         if (/^[A-Z]/.test(ctx.tagName) && graph) {
-            const component = resolveComponent(graph, ctx.tagName);
+            const component = resolveComponent(graph, ctx.tagName, getComponentImports(doc, uriToFilePath(document.uri)));
             if (component) {
                 for (const prop of component.props) {
+                    const documentation = [
+                        prop.description,
+                        prop.defaultValue !== undefined ? `**Default:** \`${prop.defaultValue}\`` : ''
+                    ].filter(Boolean).join('\n\n');
+
                     completions.push({
-                        label: prop,
+                        label: prop.name,
                         kind: CompletionItemKind.Property,
-                        detail: `prop of <${ctx.tagName}>`,
-                        insertText: `${prop}={$1}`,
+                        detail: `${formatPropSignature(prop)}${prop.required ? ' (required)' : ''}`,
+                        documentation: documentation ? { kind: MarkupKind.Markdown, value: documentation } : undefined,
+                        insertText: prop.type === 'string' ? `${prop.name}="$1"` : `${prop.name}={$1}`,
                         insertTextFormat: InsertTextFormat.Snippet,
-                        sortText: `0_${prop}`
+                        sortText: prop.required ? `0_${prop.name}` : `1_${prop.name}`
                     });
                 }
             }
@@ -715,6 +864,11 @@ connection.onCompletion((params: TextDocumentPositionParams): CompletionItem[] =
 });
 
 connection.onCompletionResolve((item: CompletionItem): CompletionItem => {
+    const uri = item.data?.zenithTs?.uri;
+    const document = uri ? documents.get(uri) : undefined;
+    if (document) {
+        return resolveScriptCompletion(document, item as ZenithScriptCompletionItem) as CompletionItem;
+    }
     return item;
 });
 
@@ -725,8 +879,24 @@ connection.onCodeAction((params: CodeActionParams): CodeAction[] => {
     }
     const eventActions = buildEventBindingCodeActions(document, params.context.diagnostics);
     const domLintActions = buildDomLintCodeActions(document, params.context.diagnostics);
+    const propActions = buildPropCodeActions(document, params.context.diagnostics as ZenithDiagnostic[]);
+    const ambiguousActions = buildAmbiguousComponentCodeActions(document, params.context.diagnostics as ZenithDiagnostic[]);
+    const routeActions = buildRouteCodeActions(document, params.context.diagnostics as ZenithDiagnostic[]);
+    const routerHookActions = buildRouterHookCodeActions(document, params.context.diagnostics as ZenithDiagnostic[]);
+    const autoImportActions = buildAutoImportCodeActions(document, params.context.diagnostics as ZenithDiagnostic[]);
+    const unusedActions = buildUnusedSymbolCodeActions(document, params.context.diagnostics as ZenithDiagnostic[]);
     const windowDocActions = buildWindowDocumentCodeActions(document, params.range);
-    return [...eventActions, ...domLintActions, ...windowDocActions];
+
+    // Source actions are offered unless the client asks only for other kinds.
+    const only = params.context.only;
+    const organizeImports = !only || only.some((kind) => ORGANIZE_IMPORTS_KIND.startsWith(kind))
+        ? buildOrganizeImportsCodeAction(document)
+        : null;
+
+    return [
+        ...eventActions, ...domLintActions, ...propActions, ...ambiguousActions, ...routeActions, ...routerHookActions, ...autoImportActions, ...unusedActions, ...windowDocActions,
+        ...(organizeImports ? [organizeImports] : [])
+    ];
 });
 
 connection.onHover((params: TextDocumentPositionParams): Hover | null => {
@@ -736,6 +906,20 @@ connection.onHover((params: TextDocumentPositionParams): Hover | null => {
     const text = document.getText();
     const offset = document.offsetAt(params.position);
 
+    // CSS hover inside <style>
+    if (findRawBlockAt(getParsedDocument(document.uri, text), offset)?.type === 'style') {
+        return getStyleHover(document, offset);
+    }
+
+    // Route params typed by the page's dynamic segments
+    const paramHover = getRouteParamHover(document, offset);
+    if (paramHover) {
+        return {
+            contents: { kind: MarkupKind.Markdown, value: paramHover.contents },
+            range: paramHover.range
+        };
+    }
+
     // Get word at position (including : and @ prefixes)
     const before = text.substring(0, offset);
     const after = text.substring(offset);
@@ -789,9 +973,20 @@ connection.onHover((params: TextDocumentPositionParams): Hover | null => {
         };
     }
 
+    const doc = getParsedDocument(document.uri, text);
+    const script = getScriptContent(doc);
+
+    // TypeScript quick info inside <script>
+    const scriptHover = findRawBlockAt(doc, offset)?.type === 'script' ? getScriptHover(document, offset) : null;
+    if (scriptHover) {
+        return {
+            contents: { kind: MarkupKind.Markdown, value: scriptHover.contents },
+            range: scriptHover.range
+        };
+    }
+
     // Check ZenLink
     if (word === 'ZenLink') {
-        const script = getScriptContent(text);
         const imports = parseZenithImports(script);
         if (hasRouterImport(imports)) {
             return {
@@ -804,13 +999,12 @@ connection.onHover((params: TextDocumentPositionParams): Hover | null => {
     }
 
     // Check states
-    const script = getScriptContent(text);
     const states = extractStates(script);
     if (states.has(word)) {
         return {
             contents: {
                 kind: MarkupKind.Markdown,
-                value: `### state \`${word}\`\n\n**Type:** inferred\n\n**Initial value:** \`${states.get(word)}\``
+                value: `### state \`${word}\`\n\n**Type:** inferred\n\n**Initial value:** \`${states.get(word)?.value}\``
             }
         };
     }
@@ -847,13 +1041,28 @@ connection.onHover((params: TextDocumentPositionParams): Hover | null => {
 
     // Check components
     const graph = getProjectGraph(params.textDocument.uri);
+
+    // Props on component tags
+    const at = findNodeAt(doc, offset);
+    if (graph && at.attribute && at.element?.isComponent && !at.inAttributeValue) {
+        const prop = resolveComponent(graph, at.element.tagName, getComponentImports(doc, uriToFilePath(document.uri)))?.props.find((p) => p.name === at.attribute?.name);
+        if (prop) {
+            return {
+                contents: {
+                    kind: MarkupKind.Markdown,
+                    value: `### prop \`${prop.name}\` of \`<${at.element.tagName}>\`\n\n\`\`\`typescript\n${formatPropSignature(prop)}\n\`\`\`\n\n${prop.required ? '**Required**' : '**Optional**'}${prop.description ? `\n\n${prop.description}` : ''}`
+                }
+            };
+        }
+    }
+
     if (graph) {
-        const component = resolveComponent(graph, word);
+        const component = resolveComponent(graph, word, getComponentImports(doc, uriToFilePath(document.uri)));
         if (component) {
             return {
                 contents: {
                     kind: MarkupKind.Markdown,
-                    value: `### ${component.type} \`<${component.name}>\`\n\n**File:** \`${component.filePath}\`\n\n**Props:** ${component.props.join(', ') || 'none'}`
+                    value: `### ${component.type} \`<${component.name}>\`\n\n**File:** \`${component.filePath}\`\n\n**Props:** ${formatPropsMarkdown(component.props)}`
                 }
             };
         }
@@ -873,6 +1082,137 @@ connection.onHover((params: TextDocumentPositionParams): Hover | null => {
     return null;
 });
 
+connection.onSignatureHelp((params: SignatureHelpParams): SignatureHelp | null => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return null;
+
+    return getScriptSignatureHelp(document, document.offsetAt(params.position));
+});
+
+connection.onDocumentColor((params: DocumentColorParams): ColorInformation[] => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+
+    return getStyleColors(document);
+});
+
+connection.onColorPresentation((params: ColorPresentationParams): ColorPresentation[] => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+
+    return getStyleColorPresentations(document, document.offsetAt(params.range.start), params.color, params.range);
+});
+
+connection.onDefinition((params: DefinitionParams): Location[] => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+
+    const graph = getProjectGraph(params.textDocument.uri);
+    return findDefinition(document, document.offsetAt(params.position), graph);
+});
+
+connection.onReferences((params: ReferenceParams): Location[] => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+
+    const graph = getProjectGraph(params.textDocument.uri);
+    return findReferences(
+        document,
+        document.offsetAt(params.position),
+        graph,
+        params.context.includeDeclaration,
+        (uri) => documents.get(uri)
+    );
+});
+
+connection.onPrepareRename((params: PrepareRenameParams): { range: Range; placeholder: string } | null => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return null;
+
+    const graph = getProjectGraph(params.textDocument.uri);
+    return prepareRename(document, document.offsetAt(params.position), graph);
+});
+
+connection.onRenameRequest((params: RenameParams): WorkspaceEdit | ResponseError<void> | null => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return null;
+
+    const graph = getProjectGraph(params.textDocument.uri);
+    const result = rename(document, document.offsetAt(params.position), params.newName, graph, (uri) => documents.get(uri));
+    if (!result) return null;
+
+    if ('error' in result) {
+        return new ResponseError(ErrorCodes.InvalidRequest, result.error);
+    }
+
+    const renamesFile = result.edit.documentChanges.some((change) => 'kind' in change && change.kind === 'rename');
+    if (renamesFile && !clientSupportsFileRename) {
+        return new ResponseError(ErrorCodes.InvalidRequest, 'Renaming a component requires client support for file rename operations.');
+    }
+
+    return result.edit;
+});
+
+connection.onDocumentSymbol((params: DocumentSymbolParams): DocumentSymbol[] => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) return [];
+
+    return buildDocumentSymbols(document) as DocumentSymbol[];
+});
+
+// Make sure every workspace folder's project is known, not only those with open documents.
+function loadWorkspaceProjectGraphs() {
+    for (const folder of workspaceFolders) {
+        const projectRoot = detectProjectRoot(folder, workspaceFolders);
+        if (projectRoot && !projectGraphs.has(projectRoot)) {
+            projectGraphs.set(projectRoot, buildProjectGraph(projectRoot));
+        }
+    }
+}
+
+connection.onWorkspaceSymbol((params: WorkspaceSymbolParams): SymbolInformation[] => {
+    loadWorkspaceProjectGraphs();
+
+    const symbols: SymbolInformation[] = [];
+    for (const graph of projectGraphs.values()) {
+        symbols.push(...findWorkspaceSymbols(graph, params.query, (uri) => documents.get(uri)) as SymbolInformation[]);
+    }
+    return symbols;
+});
+
+interface RoutesParams {
+    /** Limit the result to the project containing this document. */
+    uri?: string;
+}
+
+interface RouteInfo {
+    path: string;
+    params: string[];
+    segments: RouteSegment[];
+    uri: string;
+    layout: string | null;
+}
+
+// Custom request: the route table, for routes views in editor extensions
+connection.onRequest('zenith/routes', (params?: RoutesParams): RouteInfo[] => {
+    let graphs: ProjectGraph[];
+    if (params?.uri) {
+        const graph = getProjectGraph(params.uri);
+        graphs = graph ? [graph] : [];
+    } else {
+        loadWorkspaceProjectGraphs();
+        graphs = [...projectGraphs.values()];
+    }
+
+    return graphs.flatMap((graph) => graph.routes.map((route) => ({
+        path: route.path,
+        params: route.params,
+        segments: route.segments,
+        uri: filePathToUri(route.filePath),
+        layout: route.layout
+    })));
+});
+
 // Debounce + cancellation for diagnostics (prevents editor lag from rapid typing)
 const DEBOUNCE_MS = 150;
 const validationTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
@@ -899,13 +1239,17 @@ documents.onDidOpen(event => {
     validateDocument(event.document);
 });
 
+documents.onDidClose(event => {
+    closeScriptDocument(event.document.uri);
+});
+
 async function validateDocument(document: TextDocument) {
     const uri = document.uri;
     const id = (validationIds.get(uri) ?? 0) + 1;
     validationIds.set(uri, id);
 
     const graph = getProjectGraph(uri);
-    const filePath = uri.replace('file://', '');
+    const filePath = uriToFilePath(uri);
     const projectRoot = detectProjectRoot(path.dirname(filePath), workspaceFolders);
     const diagnostics = await collectDiagnostics(document, graph, globalSettings, projectRoot);
 
@@ -915,7 +1259,8 @@ async function validateDocument(document: TextDocument) {
 
 connection.onDidChangeConfiguration((change) => {
     const config = (change.settings?.zenith ?? change.settings) as unknown;
-    globalSettings = normalizeSettings(config);
+    globalSettings = normalizeSettings({ ...initializationSettings, ...(typeof config === 'object' ? config : {}) });
+    updateBuiltinWatcher();
 
     for (const doc of documents.all()) {
         validateDocument(doc);
@@ -923,14 +1268,42 @@ connection.onDidChangeConfiguration((change) => {
 });
 
 // Watch for file changes
-connection.onDidChangeWatchedFiles(params => {
-    for (const change of params.changes) {
-        invalidateProjectGraph(change.uri);
+function handleWatchedFileChanges(changes: Array<{ uri: string; type: ProjectFileChangeType }>) {
+    const affected = new Map<string, TextDocument>();
+    for (const change of changes) {
+        for (const doc of applyWatchedFileChange(change.uri, change.type)) {
+            affected.set(doc.uri, doc);
+        }
     }
 
-    for (const doc of documents.all()) {
+    for (const doc of affected.values()) {
         validateDocument(doc);
     }
+}
+
+connection.onDidChangeWatchedFiles(params => {
+    handleWatchedFileChanges(params.changes.map((change) => ({
+        uri: change.uri,
+        type: FILE_CHANGE_TYPES[change.type] ?? 'changed'
+    })));
+});
+
+// Built-in watcher for clients that cannot register file watchers
+function updateBuiltinWatcher() {
+    const enabled = globalSettings.builtinFileWatcher && !clientSupportsWatchedFiles;
+    if (enabled && !builtinWatcher) {
+        builtinWatcher = createFileWatcher(workspaceFolders, (events) => {
+            handleWatchedFileChanges(events.map((event) => ({ uri: filePathToUri(event.filePath), type: event.change })));
+        });
+    } else if (!enabled && builtinWatcher) {
+        builtinWatcher.close();
+        builtinWatcher = null;
+    }
+}
+
+connection.onShutdown(() => {
+    builtinWatcher?.close();
+    builtinWatcher = null;
 });
 
 documents.listen(connection);
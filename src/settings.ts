@@ -3,16 +3,20 @@ export type ComponentScriptsMode = 'forbid' | 'allow';
 export interface ZenithServerSettings {
     componentScripts: ComponentScriptsMode;
     strictDomLints: boolean;
+    /** Watch the workspace with fs.watch when the client cannot register file watchers. */
+    builtinFileWatcher: boolean;
 }
 
 export const DEFAULT_SETTINGS: ZenithServerSettings = Object.freeze({
     componentScripts: 'forbid',
-    strictDomLints: false
+    strictDomLints: false,
+    builtinFileWatcher: false
 });
 
 export function normalizeSettings(input: unknown): ZenithServerSettings {
-    const maybe = (input || {}) as { componentScripts?: unknown; strictDomLints?: unknown };
+    const maybe = (input || {}) as { componentScripts?: unknown; strictDomLints?: unknown; builtinFileWatcher?: unknown };
     const mode = maybe.componentScripts === 'allow' ? 'allow' : 'forbid';
     const strictDomLints = maybe.strictDomLints === true;
-    return { componentScripts: mode, strictDomLints };
+    const builtinFileWatcher = maybe.builtinFileWatcher === true;
+    return { componentScripts: mode, strictDomLints, builtinFileWatcher };
 }
@@ -0,0 +1,54 @@
+/**
+ * Suggestions
+ *
+ * "Did you mean" matching for misspelled names.
+ */
+
+/**
+ * Edit distance between two strings, counting insertions, deletions,
+ * substitutions and adjacent transpositions ("lable" -> "label") as one edit.
+ */
+export function editDistance(a: string, b: string): number {
+    const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+        Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+        }
+    }
+
+    return rows[a.length][b.length];
+}
+
+/**
+ * Candidates within `maxDistance` of a name, ignoring case, closest first
+ * (ties keep their input order). By default the limit is a third of the
+ * name's length, at least 1.
+ */
+export function findClosestMatches(name: string, candidates: Iterable<string>, maxDistance?: number): string[] {
+    const limit = maxDistance ?? Math.max(1, Math.floor(name.length / 3));
+    const matches: Array<{ candidate: string; distance: number }> = [];
+
+    for (const candidate of candidates) {
+        const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+        if (distance <= limit) {
+            matches.push({ candidate, distance });
+        }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance).map((match) => match.candidate);
+}
+
+/**
+ * Find the candidate closest to a name, or null when nothing is close
+ * enough (see findClosestMatches).
+ */
+export function findClosestMatch(name: string, candidates: Iterable<string>, maxDistance?: number): string | null {
+    return findClosestMatches(name, candidates, maxDistance)[0] ?? null;
+}
@@ -0,0 +1,491 @@
+/**
+ * Embedded TypeScript Service
+ *
+ * Hosts one TypeScript language service over virtual files projected
+ * from .zen <script> blocks and template expressions (see
+ * script-projection.ts). Completions, hovers, signature help and type
+ * errors are computed on the virtual file and mapped back to .zen offsets.
+ *
+ * Zenith globals and the core/plugin virtual modules are declared in an
+ * ambient file generated from the import metadata.
+ */
+
+import ts from 'typescript';
+
+import { getParsedDocument } from './parser';
+import {
+    projectDocument,
+    toGeneratedOffset,
+    toSourceSpan,
+    TEMPLATE_HELPER_DECLARATIONS,
+    type ScriptProjection
+} from './script-projection';
+import { classifyZenithFile } from './contracts';
+import { CORE_MODULES } from './metadata/core-imports';
+import { PLUGIN_MODULES } from './metadata/plugin-imports';
+import { uriToFilePath } from './uri';
+import { CompletionItemKind, DiagnosticSeverity } from './protocol';
+import type { ZenithDiagnostic, ZenithRange, ZenithTextDocumentLike } from './diagnostics';
+
+export interface ZenithScriptCompletionItem {
+    label: string;
+    kind: number;
+    sortText: string;
+    insertText?: string;
+    textEdit?: { range: ZenithRange; newText: string };
+    detail?: string;
+    documentation?: string;
+    data: { zenithTs: { uri: string; offset: number; name: string; source?: string } };
+}
+
+export interface ZenithHoverResult {
+    /** Markdown. */
+    contents: string;
+    range: ZenithRange;
+}
+
+export interface ZenithSignatureInformation {
+    label: string;
+    documentation?: string;
+    parameters: Array<{ label: string; documentation?: string }>;
+}
+
+export interface ZenithSignatureHelp {
+    signatures: ZenithSignatureInformation[];
+    activeSignature: number;
+    activeParameter: number;
+}
+
+const ENV_FILE_NAME = '/__zenith__/zenith-env.d.ts';
+
+/**
+ * Import resolution is reported by the import diagnostics, not by TypeScript.
+ */
+const IGNORED_DIAGNOSTIC_CODES = new Set([2307, 2792]);
+
+/**
+ * "Cannot find name" in component and layout templates: undeclared
+ * identifiers there are props passed by the parent.
+ */
+const PROP_REFERENCE_DIAGNOSTIC_CODES = new Set([2304, 2552]);
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+    allowJs: true,
+    strict: false,
+    noImplicitAny: false,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    resolveJsonModule: true,
+    isolatedModules: true,
+    noEmit: true
+};
+
+const ZENITH_GLOBALS = `
+interface ZenMountContext {
+    cleanup(disposer: () => void): void;
+}
+declare function zenMount(callback: (ctx: ZenMountContext) => void | (() => void)): void;
+declare function zenOnMount(callback: () => void | (() => void)): void;
+declare function zenOnDestroy(callback: () => void): void;
+declare function zenOnUpdate(callback: () => void): void;
+declare function zenEffect(callback: () => void | (() => void)): void;
+declare function useFetch<T = any>(url: string, options?: RequestInit): { data: T | null; error: Error | null; loading: boolean };
+declare function zenWindow(): Window | null;
+declare function zenDocument(): Document | null;
+declare function zenOn(target: EventTarget | null, event: string, handler: (event: any) => void): () => void;
+declare function zenResize(handler: (size: { w: number; h: number }) => void): () => void;
+declare function collectRefs<T extends Element = Element>(...refs: Array<{ current: T | null }>): T[];
+declare function signal<T>(initial: T): { get(): T; set(value: T): void };
+declare function ref<T = HTMLElement>(): { current: T | null };
+
+declare module '*.zen' {
+    const component: any;
+    export default component;
+}
+declare module '*.css';
+`;
+
+const KNOWN_GLOBAL_TYPES = new Set([
+    'Array', 'Date', 'Document', 'Element', 'Error', 'Event', 'HTMLElement', 'Map', 'Node',
+    'Partial', 'Promise', 'Readonly', 'Record', 'Set', 'Window'
+]);
+
+function isValidDeclaration(source: string): boolean {
+    const result = ts.transpileModule(source, { reportDiagnostics: true, compilerOptions: { noEmit: true } });
+    return (result.diagnostics ?? []).length === 0;
+}
+
+/**
+ * Declare a virtual module from its metadata. Exports whose signature is
+ * not a valid function declaration are declared as `any`.
+ */
+function declareModule(name: string, exports: Array<{ name: string; kind: string; signature?: string }>): string {
+    const lines: string[] = [];
+    const placeholders = new Set<string>();
+
+    for (const exp of exports) {
+        const declaration = exp.kind === 'function' && exp.signature?.startsWith(exp.name)
+            ? `export function ${exp.signature};`
+            : exp.kind === 'type'
+                ? `export type ${exp.name} = any;`
+                : `export const ${exp.name}: any;`;
+
+        if (exp.kind === 'function' && !isValidDeclaration(declaration)) {
+            lines.push(`export const ${exp.name}: any;`);
+            continue;
+        }
+
+        for (const typeName of declaration.match(/\b[A-Z][A-Za-z0-9]+\b/g) ?? []) {
+            if (typeName !== exp.name && !KNOWN_GLOBAL_TYPES.has(typeName)) {
+                placeholders.add(typeName);
+            }
+        }
+        lines.push(declaration);
+    }
+
+    const typeLines = [...placeholders].map((typeName) => `type ${typeName}<T = any> = any;`);
+    return `declare module '${name}' {\n${[...typeLines, ...lines].map((line) => `    ${line}`).join('\n')}\n}\n`;
+}
+
+let envText: string | null = null;
+
+function getEnvText(): string {
+    if (envText === null) {
+        const modules = [...Object.values(CORE_MODULES), ...Object.values(PLUGIN_MODULES)];
+        envText = ZENITH_GLOBALS + TEMPLATE_HELPER_DECLARATIONS + modules.map((mod) => declareModule(mod.module, mod.exports)).join('\n');
+    }
+    return envText;
+}
+
+interface VirtualScriptFile {
+    uri: string;
+    text: string;
+    projection: ScriptProjection;
+    version: number;
+}
+
+const virtualFiles = new Map<string, VirtualScriptFile>();
+let languageService: ts.LanguageService | null = null;
+
+function getVirtualFileName(uri: string): string {
+    return `${uriToFilePath(uri)}.ts`;
+}
+
+function getLanguageService(): ts.LanguageService {
+    if (languageService) {
+        return languageService;
+    }
+
+    const host: ts.LanguageServiceHost = {
+        getCompilationSettings: () => COMPILER_OPTIONS,
+        getScriptFileNames: () => [ENV_FILE_NAME, ...virtualFiles.keys()],
+        getScriptVersion: (fileName) => String(virtualFiles.get(fileName)?.version ?? 0),
+        getScriptSnapshot: (fileName) => {
+            if (fileName === ENV_FILE_NAME) {
+                return ts.ScriptSnapshot.fromString(getEnvText());
+            }
+            const virtual = virtualFiles.get(fileName);
+            if (virtual) {
+                return ts.ScriptSnapshot.fromString(virtual.projection.code);
+            }
+            const content = ts.sys.readFile(fileName);
+            return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+        },
+        getCurrentDirectory: () => process.cwd(),
+        getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+        fileExists: (fileName) => fileName === ENV_FILE_NAME || virtualFiles.has(fileName) || ts.sys.fileExists(fileName),
+        readFile: (fileName) => {
+            if (fileName === ENV_FILE_NAME) return getEnvText();
+            return virtualFiles.get(fileName)?.projection.code ?? ts.sys.readFile(fileName);
+        },
+        readDirectory: ts.sys.readDirectory,
+        directoryExists: ts.sys.directoryExists,
+        getDirectories: ts.sys.getDirectories
+    };
+
+    languageService = ts.createLanguageService(host, ts.createDocumentRegistry());
+    return languageService;
+}
+
+/**
+ * Bring the virtual file for a document up to date.
+ */
+function syncDocument(document: ZenithTextDocumentLike): { fileName: string; file: VirtualScriptFile } {
+    const fileName = getVirtualFileName(document.uri);
+    const text = document.getText();
+    const existing = virtualFiles.get(fileName);
+
+    if (existing && existing.text === text) {
+        return { fileName, file: existing };
+    }
+
+    const file: VirtualScriptFile = {
+        uri: document.uri,
+        text,
+        projection: projectDocument(getParsedDocument(document.uri, text)),
+        version: (existing?.version ?? 0) + 1
+    };
+    virtualFiles.set(fileName, file);
+    return { fileName, file };
+}
+
+/**
+ * Drop the virtual file of a closed document.
+ */
+export function closeScriptDocument(uri: string): void {
+    virtualFiles.delete(getVirtualFileName(uri));
+}
+
+function toRange(document: ZenithTextDocumentLike, start: number, end: number): ZenithRange {
+    return { start: document.positionAt(start), end: document.positionAt(end) };
+}
+
+function getCompletionKind(kind: ts.ScriptElementKind): number {
+    switch (kind) {
+        case ts.ScriptElementKind.functionElement:
+        case ts.ScriptElementKind.localFunctionElement:
+            return CompletionItemKind.Function;
+        case ts.ScriptElementKind.memberFunctionElement:
+            return CompletionItemKind.Method;
+        case ts.ScriptElementKind.memberVariableElement:
+        case ts.ScriptElementKind.memberGetAccessorElement:
+        case ts.ScriptElementKind.memberSetAccessorElement:
+            return CompletionItemKind.Property;
+        case ts.ScriptElementKind.constElement:
+            return CompletionItemKind.Constant;
+        case ts.ScriptElementKind.variableElement:
+        case ts.ScriptElementKind.localVariableElement:
+        case ts.ScriptElementKind.letElement:
+        case ts.ScriptElementKind.parameterElement:
+            return CompletionItemKind.Variable;
+        case ts.ScriptElementKind.classElement:
+        case ts.ScriptElementKind.localClassElement:
+            return CompletionItemKind.Class;
+        case ts.ScriptElementKind.constructorImplementationElement:
+            return CompletionItemKind.Constructor;
+        case ts.ScriptElementKind.interfaceElement:
+        case ts.ScriptElementKind.typeElement:
+            return CompletionItemKind.Interface;
+        case ts.ScriptElementKind.typeParameterElement:
+            return CompletionItemKind.TypeParameter;
+        case ts.ScriptElementKind.enumElement:
+            return CompletionItemKind.Enum;
+        case ts.ScriptElementKind.enumMemberElement:
+            return CompletionItemKind.EnumMember;
+        case ts.ScriptElementKind.moduleElement:
+        case ts.ScriptElementKind.externalModuleName:
+            return CompletionItemKind.Module;
+        case ts.ScriptElementKind.keyword:
+            return CompletionItemKind.Keyword;
+        case ts.ScriptElementKind.string:
+            return CompletionItemKind.Value;
+        default:
+            return CompletionItemKind.Text;
+    }
+}
+
+function renderDocumentation(documentation?: ts.SymbolDisplayPart[], tags?: ts.JSDocTagInfo[]): string {
+    const parts: string[] = [];
+    const text = ts.displayPartsToString(documentation);
+    if (text) parts.push(text);
+
+    for (const tag of tags ?? []) {
+        const tagText = ts.displayPartsToString(tag.text);
+        parts.push(`*@${tag.name}*${tagText ? ` — ${tagText}` : ''}`);
+    }
+
+    return parts.join('\n\n');
+}
+
+/**
+ * TypeScript completions at a script offset, or null outside <script>.
+ */
+export function getScriptCompletions(document: ZenithTextDocumentLike, offset: number): ZenithScriptCompletionItem[] | null {
+    const { fileName, file } = syncDocument(document);
+    const generated = toGeneratedOffset(file.projection, offset);
+    if (generated === null) {
+        return null;
+    }
+
+    const completions = getLanguageService().getCompletionsAtPosition(fileName, generated, {
+        includeCompletionsWithInsertText: true,
+        includeCompletionsForModuleExports: false
+    });
+    if (!completions) {
+        return [];
+    }
+
+    const items: ZenithScriptCompletionItem[] = [];
+    for (const entry of completions.entries) {
+        const item: ZenithScriptCompletionItem = {
+            label: entry.name,
+            kind: getCompletionKind(entry.kind),
+            sortText: `5_${entry.sortText}`,
+            data: { zenithTs: { uri: document.uri, offset, name: entry.name, source: entry.source } }
+        };
+
+        const replacement = entry.replacementSpan
+            ? toSourceSpan(file.projection, entry.replacementSpan.start, entry.replacementSpan.length)
+            : null;
+        if (replacement) {
+            item.textEdit = { range: toRange(document, replacement.start, replacement.end), newText: entry.insertText ?? entry.name };
+        } else if (entry.insertText) {
+            item.insertText = entry.insertText;
+        }
+
+        items.push(item);
+    }
+
+    return items;
+}
+
+/**
+ * Fill in detail and documentation for a TypeScript completion.
+ */
+export function resolveScriptCompletion(
+    document: ZenithTextDocumentLike,
+    item: ZenithScriptCompletionItem
+): ZenithScriptCompletionItem {
+    const { fileName, file } = syncDocument(document);
+    const { offset, name, source } = item.data.zenithTs;
+    const generated = toGeneratedOffset(file.projection, offset);
+    if (generated === null) {
+        return item;
+    }
+
+    const details = getLanguageService().getCompletionEntryDetails(fileName, generated, name, undefined, source, undefined, undefined);
+    if (!details) {
+        return item;
+    }
+
+    return {
+        ...item,
+        detail: ts.displayPartsToString(details.displayParts),
+        documentation: renderDocumentation(details.documentation, details.tags) || undefined
+    };
+}
+
+/**
+ * TypeScript quick info at a script offset.
+ */
+export function getScriptHover(document: ZenithTextDocumentLike, offset: number): ZenithHoverResult | null {
+    const { fileName, file } = syncDocument(document);
+    const generated = toGeneratedOffset(file.projection, offset);
+    if (generated === null) {
+        return null;
+    }
+
+    const info = getLanguageService().getQuickInfoAtPosition(fileName, generated);
+    if (!info) {
+        return null;
+    }
+
+    const span = toSourceSpan(file.projection, info.textSpan.start, info.textSpan.length);
+    if (!span) {
+        return null;
+    }
+
+    const signature = ts.displayPartsToString(info.displayParts);
+    const documentation = renderDocumentation(info.documentation, info.tags);
+
+    return {
+        contents: `\`\`\`typescript\n${signature}\n\`\`\`${documentation ? `\n\n${documentation}` : ''}`,
+        range: toRange(document, span.start, span.end)
+    };
+}
+
+/**
+ * TypeScript signature help at a script offset.
+ */
+export function getScriptSignatureHelp(document: ZenithTextDocumentLike, offset: number): ZenithSignatureHelp | null {
+    const { fileName, file } = syncDocument(document);
+    const generated = toGeneratedOffset(file.projection, offset);
+    if (generated === null) {
+        return null;
+    }
+
+    const help = getLanguageService().getSignatureHelpItems(fileName, generated, undefined);
+    if (!help) {
+        return null;
+    }
+
+    const signatures = help.items.map((item): ZenithSignatureInformation => {
+        const separator = ts.displayPartsToString(item.separatorDisplayParts);
+        const parameters = item.parameters.map((parameter) => ({
+            label: ts.displayPartsToString(parameter.displayParts),
+            documentation: ts.displayPartsToString(parameter.documentation) || undefined
+        }));
+
+        return {
+            label: ts.displayPartsToString(item.prefixDisplayParts) +
+                parameters.map((parameter) => parameter.label).join(separator) +
+                ts.displayPartsToString(item.suffixDisplayParts),
+            documentation: renderDocumentation(item.documentation, item.tags) || undefined,
+            parameters
+        };
+    });
+
+    return {
+        signatures,
+        activeSignature: help.selectedItemIndex,
+        activeParameter: help.argumentIndex
+    };
+}
+
+function getSeverity(category: ts.DiagnosticCategory): number {
+    switch (category) {
+        case ts.DiagnosticCategory.Error:
+            return DiagnosticSeverity.Error;
+        case ts.DiagnosticCategory.Warning:
+            return DiagnosticSeverity.Warning;
+        case ts.DiagnosticCategory.Suggestion:
+            return DiagnosticSeverity.Hint;
+        default:
+            return DiagnosticSeverity.Information;
+    }
+}
+
+/**
+ * Syntax and type errors for the document's <script> blocks and template
+ * expressions.
+ */
+export function collectTypeDiagnostics(document: ZenithTextDocumentLike): ZenithDiagnostic[] {
+    const { fileName, file } = syncDocument(document);
+    if (file.projection.mappings.length === 0) {
+        return [];
+    }
+
+    const service = getLanguageService();
+    const diagnostics: ZenithDiagnostic[] = [];
+    const acceptsProps = classifyZenithFile(uriToFilePath(document.uri)) !== 'page';
+
+    for (const diagnostic of [...service.getSyntacticDiagnostics(fileName), ...service.getSemanticDiagnostics(fileName)]) {
+        if (diagnostic.start === undefined || IGNORED_DIAGNOSTIC_CODES.has(diagnostic.code)) {
+            continue;
+        }
+
+        const inTemplate = diagnostic.start >= file.projection.templateStart;
+        if (inTemplate && acceptsProps && PROP_REFERENCE_DIAGNOSTIC_CODES.has(diagnostic.code)) {
+            continue;
+        }
+
+        const span = toSourceSpan(file.projection, diagnostic.start, diagnostic.length ?? 0);
+        if (!span) {
+            continue;
+        }
+
+        diagnostics.push({
+            severity: getSeverity(diagnostic.category),
+            range: toRange(document, span.start, span.end),
+            message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+            source: 'zenith-ts',
+            code: `TS${diagnostic.code}`
+        });
+    }
+
+    return diagnostics;
+}
@@ -0,0 +1,229 @@
+/**
+ * Unused Symbols
+ *
+ * Hints for imports, `state` declarations and functions that neither the
+ * script nor the template (expressions, directive values, `on:` handlers,
+ * component tags) reference. The embedded TypeScript service only sees
+ * the script, so usage is counted here across both halves of the file.
+ * Each hint is tagged Unnecessary and carries a quick fix that removes
+ * the declaration.
+ */
+
+import ts from 'typescript';
+
+import { findLoopVariable } from './definition';
+import { parseZenithImports } from './imports';
+import { getTemplateCodeSpans, type ZenDocument, type ZenRawBlock } from './parser';
+import { scanIdentifiers, type IdentifierReference } from './script-symbols';
+import { desugarStateDeclarations } from './script-projection';
+import { UNUSED_SYMBOL_DIAGNOSTIC_CODE } from './code-actions';
+import type { ZenithDiagnostic, ZenithRange, ZenithTextDocumentLike } from './diagnostics';
+import { DiagnosticSeverity, DiagnosticTag } from './protocol';
+
+export type UnusedSymbolKind = 'import' | 'state' | 'function';
+
+/**
+ * Edits that remove an unused declaration, carried as diagnostic data.
+ */
+export interface UnusedSymbolCodeActionData {
+    title: string;
+    edits: Array<{ range: ZenithRange; newText: string }>;
+}
+
+interface DeclaredSymbol {
+    name: string;
+    kind: UnusedSymbolKind;
+    /** Offsets of the declared name in the script. */
+    start: number;
+    end: number;
+    /** Script range removed by the quick fix, or null when there is none. */
+    removal: { start: number; end: number } | null;
+}
+
+/**
+ * Every identifier a document references outside its import statements:
+ * script code, template code (minus zen:for loop variables) and the root
+ * name of component tags. Offsets are absolute.
+ */
+export function collectSymbolReferences(doc: ZenDocument): IdentifierReference[] {
+    const references: IdentifierReference[] = [];
+
+    for (const block of doc.scripts) {
+        let code = block.content;
+        for (const imp of parseZenithImports(code)) {
+            code = code.slice(0, imp.start) + ' '.repeat(imp.end - imp.start) + code.slice(imp.end);
+        }
+        references.push(...scanIdentifiers(code, block.contentStart));
+    }
+
+    for (const span of getTemplateCodeSpans(doc)) {
+        for (const reference of scanIdentifiers(span.code, span.start)) {
+            if (!findLoopVariable(doc, reference.start, reference.name)) {
+                references.push(reference);
+            }
+        }
+    }
+
+    for (const element of doc.elements) {
+        const name = element.tagName.split('.')[0];
+        references.push({ name, start: element.tagNameStart, end: element.tagNameStart + name.length });
+    }
+
+    return references;
+}
+
+/**
+ * Range of a statement including its indentation and line break when
+ * nothing else is on its line.
+ */
+export function getLineRange(code: string, start: number, end: number): { start: number; end: number } {
+    const lineStart = code.lastIndexOf('\n', start - 1) + 1;
+    const trailing = code.slice(end).match(/^[ \t]*(?:\r?\n|$)/)?.[0];
+    if (/^[ \t]*$/.test(code.slice(lineStart, start)) && trailing !== undefined) {
+        return { start: lineStart, end: end + trailing.length };
+    }
+    return { start, end };
+}
+
+function isExported(statement: ts.Statement): boolean {
+    return ts.canHaveModifiers(statement) &&
+        !!ts.getModifiers(statement)?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+/**
+ * Range removing one binding from an import, or the whole statement when
+ * it is the only one.
+ */
+function getImportBindingRemoval(
+    source: ts.SourceFile,
+    declaration: ts.ImportDeclaration,
+    binding: ts.Identifier | ts.ImportSpecifier
+): { start: number; end: number } {
+    const clause = declaration.importClause!;
+    const bindings = clause.namedBindings;
+    const named = bindings && ts.isNamedImports(bindings) ? bindings.elements : null;
+    const count = (clause.name ? 1 : 0) + (bindings ? (named ? named.length : 1) : 0);
+
+    if (count === 1) {
+        return getLineRange(source.text, declaration.getStart(source), declaration.getEnd());
+    }
+
+    // Default import followed by `{ ... }` or `* as ns`.
+    if (binding === clause.name) {
+        return { start: binding.getStart(source), end: bindings!.getStart(source) };
+    }
+
+    // The only named import (or namespace) after a default import.
+    if (!named || named.length === 1) {
+        return { start: clause.name!.getEnd(), end: bindings!.getEnd() };
+    }
+
+    const index = named.indexOf(binding as ts.ImportSpecifier);
+    return index < named.length - 1
+        ? { start: binding.getStart(source), end: named[index + 1].getStart(source) }
+        : { start: named[index - 1].getEnd(), end: binding.getEnd() };
+}
+
+/**
+ * Top-level imports, states and functions declared in a script block.
+ * Exported declarations are skipped.
+ */
+function collectDeclaredSymbols(block: ZenRawBlock): DeclaredSymbol[] {
+    const source = ts.createSourceFile('unused.ts', desugarStateDeclarations(block.content), ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const symbols: DeclaredSymbol[] = [];
+
+    const declare = (name: ts.Identifier, kind: UnusedSymbolKind, removal: DeclaredSymbol['removal']) => {
+        symbols.push({ name: name.text, kind, start: name.getStart(source), end: name.getEnd(), removal });
+    };
+
+    for (const statement of source.statements) {
+        if (ts.isImportDeclaration(statement)) {
+            const clause = statement.importClause;
+            if (clause?.name) {
+                declare(clause.name, 'import', getImportBindingRemoval(source, statement, clause.name));
+            }
+            const bindings = clause?.namedBindings;
+            if (bindings && ts.isNamespaceImport(bindings)) {
+                declare(bindings.name, 'import', getImportBindingRemoval(source, statement, bindings.name));
+            } else if (bindings) {
+                for (const element of bindings.elements) {
+                    declare(element.name, 'import', getImportBindingRemoval(source, statement, element));
+                }
+            }
+            continue;
+        }
+
+        if (isExported(statement)) continue;
+
+        if (ts.isFunctionDeclaration(statement) && statement.name) {
+            declare(statement.name, 'function', getLineRange(source.text, statement.getStart(source), statement.getEnd()));
+            continue;
+        }
+
+        if (ts.isVariableStatement(statement)) {
+            const isState = block.content.startsWith('state', statement.getStart(source));
+            const declarations = statement.declarationList.declarations;
+
+            for (const declaration of declarations) {
+                if (!ts.isIdentifier(declaration.name)) continue;
+
+                const initializer = declaration.initializer;
+                const isFunction = !!initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+                if (!isState && !isFunction) continue;
+
+                // Multi-declaration statements have no removal fix.
+                const removal = declarations.length === 1
+                    ? getLineRange(source.text, statement.getStart(source), statement.getEnd())
+                    : null;
+                declare(declaration.name, isState ? 'state' : 'function', removal);
+            }
+        }
+    }
+
+    return symbols;
+}
+
+/**
+ * Unnecessary-tagged hints for declarations nothing references.
+ */
+export function collectUnusedSymbolDiagnostics(document: ZenithTextDocumentLike, doc: ZenDocument): ZenithDiagnostic[] {
+    const diagnostics: ZenithDiagnostic[] = [];
+    const references = collectSymbolReferences(doc);
+
+    for (const block of doc.scripts) {
+        for (const symbol of collectDeclaredSymbols(block)) {
+            const start = block.contentStart + symbol.start;
+            const used = references.some((reference) => reference.name === symbol.name && reference.start !== start);
+            if (used) continue;
+
+            const diagnostic: ZenithDiagnostic = {
+                severity: DiagnosticSeverity.Hint,
+                range: { start: document.positionAt(start), end: document.positionAt(block.contentStart + symbol.end) },
+                message: symbol.kind === 'import'
+                    ? `'${symbol.name}' is imported but never used.`
+                    : `'${symbol.name}' is declared but never used.`,
+                source: 'zenith',
+                code: UNUSED_SYMBOL_DIAGNOSTIC_CODE,
+                tags: [DiagnosticTag.Unnecessary]
+            };
+
+            if (symbol.removal) {
+                const data: UnusedSymbolCodeActionData = {
+                    title: `Remove unused ${symbol.kind} '${symbol.name}'`,
+                    edits: [{
+                        range: {
+                            start: document.positionAt(block.contentStart + symbol.removal.start),
+                            end: document.positionAt(block.contentStart + symbol.removal.end)
+                        },
+                        newText: ''
+                    }]
+                };
+                diagnostic.data = data;
+            }
+
+            diagnostics.push(diagnostic);
+        }
+    }
+
+    return diagnostics;
+}
@@ -0,0 +1,19 @@
+import { pathToFileURL } from 'url';
+
+/**
+ * Convert a document URI to a filesystem path.
+ */
+export function uriToFilePath(uri: string): string {
+    try {
+        return decodeURIComponent(new URL(uri).pathname);
+    } catch {
+        return decodeURIComponent(uri.replace('file://', ''));
+    }
+}
+
+/**
+ * Convert a filesystem path to a file:// URI.
+ */
+export function filePathToUri(filePath: string): string {
+    return pathToFileURL(filePath).href;
+}
@@ -0,0 +1,148 @@
+/**
+ * Workspace Symbols
+ *
+ * Symbol search over the project graph: components, layouts, pages
+ * (named by route path) and the states and functions declared in every
+ * .zen file. Per-file symbols are cached by modification time.
+ */
+
+import * as fs from 'fs';
+
+import type { ComponentInfo, ProjectGraph } from './project';
+import { parseZenDocument } from './parser';
+import { collectScriptSymbols } from './script-symbols';
+import { createTextDocumentLike, type OpenDocumentLookup } from './workspace';
+import { filePathToUri } from './uri';
+import type { ZenithLocation } from './definition';
+import { SymbolKind } from './protocol';
+
+export interface ZenithSymbolInformation {
+    name: string;
+    kind: number;
+    location: ZenithLocation;
+    containerName?: string;
+}
+
+const MAX_RESULTS = 500;
+
+const fileSymbolCache = new Map<string, { mtimeMs: number; symbols: ZenithSymbolInformation[] }>();
+
+/**
+ * Case-insensitive subsequence match ("hb" matches "HeroBanner").
+ */
+export function matchesSymbolQuery(name: string, query: string): boolean {
+    if (!query) return true;
+
+    const haystack = name.toLowerCase();
+    const needle = query.toLowerCase();
+    let index = 0;
+
+    for (const ch of needle) {
+        index = haystack.indexOf(ch, index);
+        if (index < 0) return false;
+        index++;
+    }
+
+    return true;
+}
+
+function extractFileSymbols(filePath: string, text: string, containerName: string): ZenithSymbolInformation[] {
+    const document = createTextDocumentLike(filePathToUri(filePath), text);
+    const symbols = collectScriptSymbols(parseZenDocument(text));
+    const results: ZenithSymbolInformation[] = [];
+
+    const toLocation = (offset: number, length: number): ZenithLocation => ({
+        uri: document.uri,
+        range: { start: document.positionAt(offset), end: document.positionAt(offset + length) }
+    });
+
+    for (const state of symbols.states.values()) {
+        results.push({
+            name: state.name,
+            kind: SymbolKind.Variable,
+            location: toLocation(state.offset, state.name.length),
+            containerName
+        });
+    }
+
+    for (const func of symbols.functions) {
+        results.push({
+            name: func.name,
+            kind: SymbolKind.Function,
+            location: toLocation(func.offset, func.name.length),
+            containerName
+        });
+    }
+
+    return results;
+}
+
+function getFileSymbols(info: ComponentInfo, containerName: string, openDocuments?: OpenDocumentLookup): ZenithSymbolInformation[] {
+    const open = openDocuments?.(filePathToUri(info.filePath));
+    if (open) {
+        return extractFileSymbols(info.filePath, open.getText(), containerName);
+    }
+
+    try {
+        const { mtimeMs } = fs.statSync(info.filePath);
+        const cached = fileSymbolCache.get(info.filePath);
+        if (cached && cached.mtimeMs === mtimeMs) {
+            return cached.symbols;
+        }
+
+        const symbols = extractFileSymbols(info.filePath, fs.readFileSync(info.filePath, 'utf-8'), containerName);
+        fileSymbolCache.set(info.filePath, { mtimeMs, symbols });
+        return symbols;
+    } catch {
+        fileSymbolCache.delete(info.filePath);
+        return [];
+    }
+}
+
+/**
+ * Search the project graph for symbols matching a query.
+ */
+export function findWorkspaceSymbols(
+    graph: ProjectGraph,
+    query: string,
+    openDocuments?: OpenDocumentLookup
+): ZenithSymbolInformation[] {
+    const results: ZenithSymbolInformation[] = [];
+    const fileStart = { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+    const routePaths = new Map(graph.routes.map((route) => [route.filePath, route.path]));
+
+    const entries: Array<{ info: ComponentInfo; name: string; kind: number; containerName: string }> = [];
+    for (const info of graph.components.values()) {
+        entries.push({ info, name: info.name, kind: SymbolKind.Class, containerName: 'component' });
+    }
+    for (const info of graph.layouts.values()) {
+        entries.push({ info, name: info.name, kind: SymbolKind.Class, containerName: 'layout' });
+    }
+    for (const info of graph.pages.values()) {
+        entries.push({ info, name: routePaths.get(info.filePath) ?? info.name, kind: SymbolKind.File, containerName: 'page' });
+    }
+
+    for (const entry of entries) {
+        if (matchesSymbolQuery(entry.name, query)) {
+            results.push({
+                name: entry.name,
+                kind: entry.kind,
+                location: { uri: filePathToUri(entry.info.filePath), range: fileStart },
+                containerName: entry.containerName
+            });
+        }
+
+        const container = entry.info.type === 'page' ? entry.name : entry.info.name;
+        for (const symbol of getFileSymbols(entry.info, container, openDocuments)) {
+            if (matchesSymbolQuery(symbol.name, query)) {
+                results.push(symbol);
+            }
+        }
+
+        if (results.length >= MAX_RESULTS) {
+            break;
+        }
+    }
+
+    return results.slice(0, MAX_RESULTS);
+}
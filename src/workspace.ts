@@ -0,0 +1,96 @@
+/**
+ * Workspace Documents
+ *
+ * Loads the .zen files known to the project graph for cross-file
+ * features. Open editor buffers take precedence over the file on disk
+ * so unsaved edits are reflected.
+ */
+
+import * as fs from 'fs';
+
+import type { ProjectGraph } from './project';
+import type { ZenithPosition, ZenithTextDocumentLike } from './diagnostics';
+import { filePathToUri } from './uri';
+
+export type OpenDocumentLookup = (uri: string) => ZenithTextDocumentLike | undefined;
+
+/**
+ * Create a minimal document over a text buffer.
+ */
+export function createTextDocumentLike(uri: string, text: string): ZenithTextDocumentLike & {
+    offsetAt(position: ZenithPosition): number;
+} {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') lineStarts.push(i + 1);
+    }
+
+    return {
+        uri,
+        getText() {
+            return text;
+        },
+        positionAt(offset: number) {
+            const bounded = Math.max(0, Math.min(offset, text.length));
+            let low = 0;
+            let high = lineStarts.length - 1;
+            while (low < high) {
+                const mid = Math.ceil((low + high) / 2);
+                if (lineStarts[mid] <= bounded) {
+                    low = mid;
+                } else {
+                    high = mid - 1;
+                }
+            }
+            return { line: low, character: bounded - lineStarts[low] };
+        },
+        offsetAt(position: ZenithPosition) {
+            const lineStart = lineStarts[Math.max(0, Math.min(position.line, lineStarts.length - 1))];
+            return Math.min(lineStart + position.character, text.length);
+        }
+    };
+}
+
+/**
+ * Get every .zen file path in the project graph (pages, layouts, components).
+ */
+export function getProjectZenFiles(graph: ProjectGraph): string[] {
+    const files = new Set<string>();
+    for (const map of [graph.pages, graph.layouts, graph.components]) {
+        for (const info of map.values()) {
+            files.add(info.filePath);
+        }
+    }
+    return [...files].sort();
+}
+
+/**
+ * Load a document by path, preferring the open editor buffer.
+ */
+export function loadWorkspaceDocument(filePath: string, openDocuments?: OpenDocumentLookup): ZenithTextDocumentLike | null {
+    const uri = filePathToUri(filePath);
+    const open = openDocuments?.(uri);
+    if (open) {
+        return open;
+    }
+
+    try {
+        return createTextDocumentLike(uri, fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Load every .zen document in the project graph.
+ */
+export function loadProjectDocuments(graph: ProjectGraph, openDocuments?: OpenDocumentLookup): ZenithTextDocumentLike[] {
+    const documents: ZenithTextDocumentLike[] = [];
+    for (const filePath of getProjectZenFiles(graph)) {
+        const document = loadWorkspaceDocument(filePath, openDocuments);
+        if (document) {
+            documents.push(document);
+        }
+    }
+    return documents;
+}
@@ -0,0 +1,86 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildImportEdit, collectMissingImportDiagnostics, getAutoImportCompletions } from '../src/auto-import';
+import { buildAutoImportCodeActions, MISSING_IMPORT_DIAGNOSTIC_CODE } from '../src/code-actions';
+import { parseZenDocument } from '../src/parser';
+import { createTextDocumentLike } from '../src/workspace';
+
+const URI = 'file:///tmp/zenith-site/src/pages/index.zen';
+
+function importResult(text: string, moduleName: string, name: string): string {
+    const document = createTextDocumentLike(URI, text);
+    const edit = buildImportEdit(document, parseZenDocument(text), moduleName, name);
+    assert.ok(edit);
+    const start = document.offsetAt(edit.range.start);
+    return text.slice(0, start) + edit.newText + text.slice(document.offsetAt(edit.range.end));
+}
+
+test('imports are added to an existing named import from the module', () => {
+    assert.equal(
+        importResult("<script>\nimport { zenOnMount } from 'zenith'\n</script>", 'zenith', 'zenEffect'),
+        "<script>\nimport { zenOnMount, zenEffect } from 'zenith'\n</script>"
+    );
+    assert.equal(
+        importResult("<script>\nimport {\n    zenOnMount,\n} from 'zenith'\n</script>", 'zenith', 'zenEffect'),
+        "<script>\nimport {\n    zenOnMount,\n    zenEffect,\n} from 'zenith'\n</script>"
+    );
+});
+
+test('a new import line goes after the last import or at the top of the script', () => {
+    assert.equal(
+        importResult("<script>\n  import Card from './Card.zen'\n  state n = 1\n</script>", 'zenith:content', 'getCollection'),
+        "<script>\n  import Card from './Card.zen'\n  import { getCollection } from 'zenith:content'\n  state n = 1\n</script>"
+    );
+    assert.equal(
+        importResult('<script>\nstate n = 1\n</script>', 'zenith', 'zenEffect'),
+        "<script>\nimport { zenEffect } from 'zenith'\nstate n = 1\n</script>"
+    );
+});
+
+test('using an export without importing it is reported with an import quick fix', () => {
+    const text = "<script>\nimport { zenOnMount } from 'zenith'\nzenEffect(() => {})\nconst posts = getCollection('blog')\nconst img = new Image()\n</script>";
+    const document = createTextDocumentLike(URI, text);
+    const diagnostics = collectMissingImportDiagnostics(document, parseZenDocument(text));
+
+    assert.deepEqual(diagnostics.map((d) => [d.code, d.message]), [
+        [MISSING_IMPORT_DIAGNOSTIC_CODE, "'zenEffect' is exported by 'zenith' but not imported."],
+        [MISSING_IMPORT_DIAGNOSTIC_CODE, "'getCollection' is exported by 'zenith:content' but not imported."]
+    ]);
+
+    const actions = buildAutoImportCodeActions(document, diagnostics);
+    assert.deepEqual(actions.map((action) => action.title), [
+        "Import 'zenEffect' from 'zenith'",
+        "Import 'getCollection' from 'zenith:content'"
+    ]);
+    assert.deepEqual(actions[0].edit.changes[URI][0].newText, ', zenEffect');
+});
+
+test('destructured, parameter and catch bindings are not reported as missing imports', () => {
+    const text = [
+        '<script>',
+        "import { useRouter } from 'zenith/router'",
+        'const { navigate } = useRouter()',
+        'const [zenEffect] = [(callback) => callback()]',
+        "function go(prefetch) { prefetch('/a'); navigate('/b') }",
+        'for (const { zenBatch } of []) zenBatch()',
+        'try { go(() => {}) } catch (zenUntrack) { zenUntrack }',
+        'zenEffect(() => {})',
+        "const posts = getCollection('blog')",
+        '</script>'
+    ].join('\n');
+    const diagnostics = collectMissingImportDiagnostics(createTextDocumentLike(URI, text), parseZenDocument(text));
+
+    assert.deepEqual(diagnostics.map((d) => d.message), [
+        "'getCollection' is exported by 'zenith:content' but not imported."
+    ]);
+});
+
+test('export completions carry the import as additional text edits', () => {
+    const text = "<script>\nimport { zenOnMount } from 'zenith'\nzenE\n</script>";
+    const items = getAutoImportCompletions(createTextDocumentLike(URI, text), 'zenE');
+
+    assert.deepEqual(items.map((item) => item.label), ['zenEffect']);
+    assert.equal(items[0].additionalTextEdits[0].newText, ', zenEffect');
+    assert.deepEqual(getAutoImportCompletions(createTextDocumentLike(URI, text), 'zenOnM'), []);
+});
@@ -0,0 +1,78 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { extractComponentProps, formatPropSignature, formatPropsMarkdown } from '../src/component-props';
+import { buildProjectGraph } from '../src/project';
+
+test('props are read from an interface with optional markers, JSDoc and defaults', () => {
+    const props = extractComponentProps(`<script lang="ts">
+interface Props {
+    /** Heading text. */
+    title: string
+    /**
+     * Visual size.
+     * @default 'md'
+     */
+    size?: 'sm' | 'md'
+    count?: number
+    onClose(reason: string): void
+}
+const { count = 0 } = props
+</script>
+<h2>{title}</h2>`);
+
+    assert.deepEqual(props, [
+        { name: 'title', type: 'string', required: true, description: 'Heading text.' },
+        { name: 'size', type: "'sm' | 'md'", required: false, defaultValue: "'md'", description: 'Visual size.' },
+        { name: 'count', type: 'number', required: false, defaultValue: '0' },
+        { name: 'onClose', type: '(reason: string) => void', required: true }
+    ]);
+});
+
+test('type literal Props aliases are supported', () => {
+    const props = extractComponentProps('<script>\ntype Props = { href: string; external?: boolean }\n</script><a>{href}</a>');
+
+    assert.deepEqual(props.map(formatPropSignature), ['href: string', 'external?: boolean']);
+});
+
+test('without a Props declaration, undeclared template identifiers become props', () => {
+    const props = extractComponentProps(
+        '<article>\n<h2>{heading}</h2>\n<p zen:if="summary">{summary.trim()}</p>\n' +
+        '<li zen:for="tag in tags">{tag}</li>\n<time>{new Date(date).getFullYear()}</time>\n</article>'
+    );
+
+    assert.deepEqual(props.map((prop) => prop.name), ['heading', 'summary', 'tags', 'date']);
+    assert.ok(props.every((prop) => prop.type === 'any' && !prop.required && prop.inferred));
+});
+
+test('parameters and locals bound inside template expressions are not props', () => {
+    const props = extractComponentProps(
+        '<button on:click={(e) => { const { id } = e.target; select(id, label) }}>{items.map(function each(item) { return item })}</button>'
+    );
+
+    assert.deepEqual(props.map((prop) => prop.name), ['select', 'label', 'items']);
+});
+
+test('props markdown lists signatures and descriptions', () => {
+    assert.equal(formatPropsMarkdown([]), 'none');
+    assert.equal(
+        formatPropsMarkdown([{ name: 'title', type: 'string', required: true, description: 'Heading text.' }]),
+        '\n- `title: string` — Heading text.'
+    );
+});
+
+test('the project graph carries structured props for components and layouts', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenith-lsp-props-'));
+    fs.mkdirSync(path.join(root, 'src/components'), { recursive: true });
+    fs.mkdirSync(path.join(root, 'src/pages'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'src/components/Badge.zen'), '<script>\ninterface Props { label: string }\n</script>\n<span>{label}</span>');
+    fs.writeFileSync(path.join(root, 'src/pages/index.zen'), '<Badge label="x" />\n<p>{unknownThing}</p>');
+
+    const graph = buildProjectGraph(root);
+
+    assert.deepEqual(graph.components.get('Badge')?.props, [{ name: 'label', type: 'string', required: true }]);
+    assert.deepEqual(graph.pages.get('index')?.props, []);
+});
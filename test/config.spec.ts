@@ -0,0 +1,103 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { evaluateConfigSource, readZenithConfig, resolveConfigAlias } from '../src/config';
+import { classifyZenithFile } from '../src/contracts';
+import { collectContractDiagnostics } from '../src/diagnostics';
+import { buildProjectGraph, getComponentImports } from '../src/project';
+import { parseZenDocument } from '../src/parser';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import { filePathToUri } from '../src/uri';
+import { createTextDocumentLike } from '../src/workspace';
+
+function createProject(files: Record<string, string>): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenith-lsp-config-'));
+    for (const [relative, content] of Object.entries(files)) {
+        const fullPath = path.join(root, relative);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+    return root;
+}
+
+test('TS configs are evaluated from literals without running them', () => {
+    const options = evaluateConfigSource([
+        "import { defineConfig } from '@zenithbuild/cli'",
+        "import content from '@zenithbuild/plugin-content'",
+        "const srcDir = 'site'",
+        'export default defineConfig({',
+        '  srcDir,',
+        "  pagesDir: 'routes',",
+        "  layoutsDir: process.env.LAYOUTS,",
+        "  alias: { '@ui': './site/ui' },",
+        "  plugins: [content({ dir: 'posts' }), 'zenith:image'],",
+        '} satisfies object)'
+    ].join('\n'));
+
+    assert.equal(options.srcDir, 'site');
+    assert.equal(options.pagesDir, 'routes');
+    assert.equal(options.layoutsDir, undefined);
+    assert.deepEqual(options.alias, { '@ui': './site/ui' });
+
+    assert.deepEqual(evaluateConfigSource("module.exports = { srcDir: 'app' }"), { srcDir: 'app' });
+    assert.deepEqual(evaluateConfigSource('export default createConfig()'), {});
+});
+
+test('configured directories drive classification and graph contents', () => {
+    const root = createProject({
+        'zenith.config.ts': [
+            "import content from '@zenithbuild/plugin-content'",
+            "export default { srcDir: 'site', pagesDir: 'routes', componentsDir: 'ui', alias: { '@ui': './site/ui' }, plugins: [content()] }"
+        ].join('\n'),
+        'site/routes/index.zen': '<Button />',
+        'site/routes/blog/[slug].zen': '<article />',
+        'site/layouts/Main.zen': '<main><slot /></main>',
+        'site/ui/Button.zen': '<button />'
+    });
+
+    const config = readZenithConfig(root);
+    assert.equal(config.pagesDir, path.join(root, 'site/routes'));
+    assert.equal(config.componentsDir, path.join(root, 'site/ui'));
+    assert.deepEqual(config.plugins, ['content']);
+    assert.equal(resolveConfigAlias(config, '@ui/Button.zen'), path.join(root, 'site/ui/Button.zen'));
+
+    assert.equal(classifyZenithFile(path.join(root, 'site/routes/blog/[slug].zen')), 'page');
+    assert.equal(classifyZenithFile(path.join(root, 'site/layouts/Main.zen')), 'layout');
+    assert.equal(classifyZenithFile(path.join(root, 'site/ui/Button.zen')), 'component');
+
+    const graph = buildProjectGraph(root);
+    assert.deepEqual([...graph.components.keys()], ['Button']);
+    assert.deepEqual([...graph.layouts.keys()], ['Main']);
+    assert.deepEqual(graph.routes.map((route) => route.path), ['/', '/blog/[slug]']);
+
+    const page = parseZenDocument("<script>\nimport Btn from '@ui/Button.zen'\n</script>\n<Btn />");
+    assert.deepEqual(getComponentImports(page, path.join(root, 'site/routes/index.zen')), new Map([['Btn', path.join(root, 'site/ui/Button.zen')]]));
+});
+
+test('JSON configs are parsed and projects without a config keep the defaults', () => {
+    const jsonRoot = createProject({ 'zenith.config.json': '{ "layoutsDir": "shells" }' });
+    assert.equal(readZenithConfig(jsonRoot).layoutsDir, path.join(jsonRoot, 'app/shells'));
+
+    const plainRoot = createProject({ 'src/pages/index.zen': '' });
+    const config = readZenithConfig(plainRoot);
+    assert.equal(config.configPath, null);
+    assert.equal(config.pagesDir, path.join(plainRoot, 'src/pages'));
+    assert.equal(config.plugins, null);
+});
+
+test('unknown component warnings name the configured directories', () => {
+    const root = createProject({
+        'zenith.config.json': '{ "srcDir": "site", "layoutsDir": "shells", "componentsDir": "ui" }',
+        'site/pages/index.zen': '<Missing />'
+    });
+    const pagePath = path.join(root, 'site/pages/index.zen');
+    const document = createTextDocumentLike(filePathToUri(pagePath), '<Missing />');
+
+    const messages = collectContractDiagnostics(document, buildProjectGraph(root), DEFAULT_SETTINGS, root)
+        .map((diagnostic) => diagnostic.message)
+        .filter((message) => message.startsWith('Unknown component'));
+    assert.deepEqual(messages, ["Unknown component: '<Missing>'. Ensure it exists in site/shells/ or site/ui/"]);
+});
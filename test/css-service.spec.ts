@@ -0,0 +1,54 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseZenDocument } from '../src/parser';
+import {
+    collectStyleDiagnostics,
+    createStyleText,
+    getStyleColors,
+    getStyleCompletions,
+    getStyleHover
+} from '../src/css-service';
+import { createTextDocumentLike } from '../src/workspace';
+
+function doc(text: string) {
+    return createTextDocumentLike('file:///project/src/pages/index.zen', text);
+}
+
+test('style text keeps positions and blanks everything outside <style>', () => {
+    const text = '<p>{a}</p>\n<style>\n.a { color: red; }\n</style>';
+    const styleText = createStyleText(text, parseZenDocument(text).styles);
+
+    assert.equal(styleText.length, text.length);
+    assert.equal(styleText.trim(), '.a { color: red; }');
+    assert.equal(styleText.indexOf('.a'), text.indexOf('.a'));
+});
+
+test('completions and hover come from the CSS service inside <style> only', () => {
+    const text = '<div class="a"></div>\n<style>\n.a { disp }\n</style>';
+    const document = doc(text);
+
+    const completions = getStyleCompletions(document, text.indexOf('disp') + 4);
+    assert.ok(completions?.items.some((item) => item.label === 'display'));
+    assert.equal(getStyleCompletions(document, text.indexOf('class')), null);
+
+    const hover = getStyleHover(doc('<style>\n.a { display: flex; }\n</style>'), 14);
+    assert.ok(hover);
+    assert.match(JSON.stringify(hover.contents), /display/);
+});
+
+test('document colors are found in every style block', () => {
+    const text = '<style>\n.a { color: #ff0000; }\n</style>\n<p />\n<style>\n.b { background: rgb(0, 0, 255); }\n</style>';
+    const colors = getStyleColors(doc(text));
+
+    assert.deepEqual(colors.map((color) => color.range.start.line), [1, 5]);
+    assert.deepEqual(colors[0].color, { red: 1, green: 0, blue: 0, alpha: 1 });
+});
+
+test('only CSS syntax errors are reported, not lint rules', () => {
+    const text = '<style>\n@tailwind base;\n.empty {}\n.a { colr: red; }\n.b { color: ; }\n</style>';
+    const diagnostics = collectStyleDiagnostics(doc(text));
+
+    assert.deepEqual(diagnostics.map((d) => `${d.code}:${d.range.start.line}`), ['css-propertyvalueexpected:4']);
+    assert.equal(diagnostics[0].source, 'zenith-css');
+});
@@ -0,0 +1,105 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { findDefinition } from '../src/definition';
+import { extractImportBindings } from '../src/script-symbols';
+import type { ProjectGraph } from '../src/project';
+
+const URI = 'file:///tmp/zenith-site/src/pages/index.zen';
+
+function doc(uri: string, content: string) {
+    return {
+        uri,
+        getText() {
+            return content;
+        },
+        positionAt(offset: number) {
+            const bounded = Math.max(0, Math.min(offset, content.length));
+            const before = content.slice(0, bounded);
+            const lines = before.split('\n');
+            return {
+                line: lines.length - 1,
+                character: lines[lines.length - 1]?.length || 0
+            };
+        }
+    };
+}
+
+function graph(): ProjectGraph {
+    return {
+        root: '/tmp/zenith-site',
+        layouts: new Map([['RootLayout', { name: 'RootLayout', filePath: '/tmp/zenith-site/src/layouts/RootLayout.zen', type: 'layout', props: [] }]]),
+        components: new Map([['Card', { name: 'Card', filePath: '/tmp/zenith-site/src/components/Card.zen', type: 'component', props: [] }]]),
+        pages: new Map(),
+        routes: []
+    };
+}
+
+const SOURCE = [
+    '<script>',
+    "import { zenOnMount } from 'zenith'",
+    'state count = 0',
+    'function save() { count++ }',
+    '</script>',
+    '<RootLayout>',
+    '  <p zen:if="count > 0">{count}</p>',
+    '  <button on:click={save}>Save</button>',
+    '  <li zen:for="item, i in items"><Card>{item.count} {i}</Card></li>',
+    '</RootLayout>'
+].join('\n');
+
+test('definition jumps from component and layout tags to their files', () => {
+    const document = doc(URI, SOURCE);
+
+    const card = findDefinition(document, SOURCE.indexOf('<Card>') + 2, graph());
+    assert.equal(card[0]?.uri, 'file:///tmp/zenith-site/src/components/Card.zen');
+
+    const closingLayout = findDefinition(document, SOURCE.indexOf('</RootLayout>') + 3, graph());
+    assert.equal(closingLayout[0]?.uri, 'file:///tmp/zenith-site/src/layouts/RootLayout.zen');
+});
+
+test('definition resolves state, functions and imports from template expressions', () => {
+    const document = doc(URI, SOURCE);
+
+    const fromExpression = findDefinition(document, SOURCE.indexOf('{count}') + 2, graph());
+    assert.deepEqual(fromExpression[0]?.range, { start: { line: 2, character: 6 }, end: { line: 2, character: 11 } });
+
+    const fromDirective = findDefinition(document, SOURCE.indexOf('count > 0') + 1, graph());
+    assert.equal(fromDirective[0]?.range.start.line, 2);
+
+    const fromHandler = findDefinition(document, SOURCE.indexOf('{save}') + 2, graph());
+    assert.deepEqual(fromHandler[0]?.range.start, { line: 3, character: 9 });
+
+    const fromImport = findDefinition(document, SOURCE.indexOf('zenOnMount') + 1, graph());
+    assert.deepEqual(fromImport[0]?.range.start, { line: 1, character: 9 });
+});
+
+test('definition resolves loop variables to their zen:for directive and ignores property access', () => {
+    const document = doc(URI, SOURCE);
+
+    const item = findDefinition(document, SOURCE.indexOf('{item.count}') + 2, graph());
+    assert.deepEqual(item[0]?.range, { start: { line: 8, character: 15 }, end: { line: 8, character: 19 } });
+
+    const index = findDefinition(document, SOURCE.indexOf('{i}') + 1, graph());
+    assert.deepEqual(index[0]?.range.start, { line: 8, character: 21 });
+
+    const property = findDefinition(document, SOURCE.indexOf('item.count') + 6, graph());
+    assert.equal(property.length, 0);
+});
+
+test('import bindings cover default, namespace, aliased and multi-line imports', () => {
+    const script = "import Card, * as ns from './x'\nimport {\n  a,\n  b as c,\n  type T\n} from 'y'";
+    const bindings = extractImportBindings(script);
+
+    assert.deepEqual(bindings.map((b) => [b.name, b.imported, b.module]), [
+        ['Card', 'default', './x'],
+        ['ns', '*', './x'],
+        ['a', 'a', 'y'],
+        ['c', 'b', 'y'],
+        ['T', 'T', 'y']
+    ]);
+    assert.equal(script.slice(bindings[3]!.offset, bindings[3]!.offset + 1), 'c');
+    assert.equal(bindings[4]?.isType, true);
+
+    assert.deepEqual(extractImportBindings("// import Old from './old'\nconst s = \"import X from 'x'\""), []);
+});
@@ -2,7 +2,21 @@ import test from 'node:test';
 import assert from 'node:assert/strict';
 
 import { collectDiagnostics, collectContractDiagnostics, CONTRACT_MESSAGES } from '../src/diagnostics';
-import { buildEventBindingCodeActions } from '../src/code-actions';
+import {
+    AMBIGUOUS_COMPONENT_DIAGNOSTIC_CODE,
+    buildAmbiguousComponentCodeActions,
+    buildEventBindingCodeActions,
+    buildPropCodeActions,
+    buildRouteCodeActions,
+    MISSING_PROP_DIAGNOSTIC_CODE,
+    PROP_TYPE_DIAGNOSTIC_CODE,
+    SHORT_COMPONENT_NAME_DIAGNOSTIC_CODE,
+    UNKNOWN_PROP_DIAGNOSTIC_CODE,
+    UNKNOWN_ROUTE_DIAGNOSTIC_CODE,
+    UNRESOLVED_IMPORT_DIAGNOSTIC_CODE
+} from '../src/code-actions';
+import type { ProjectGraph } from '../src/project';
+import { buildRouteTable } from '../src/routes';
 import { DEFAULT_SETTINGS, normalizeSettings } from '../src/settings';
 
 const PROJECT_ROOT = '/tmp/zenith-site';
@@ -118,3 +132,163 @@ test('ZEN-DOM-QUERY diagnostic appears for querySelector and severity maps with
     assert.ok(queryStrict.length >= 1, `expected ZEN-DOM-QUERY diagnostic in strict mode, got: ${JSON.stringify(diagnosticsStrict.map((d) => d.code))}`);
     assert.equal(queryStrict[0]?.severity, 1, 'ZEN-DOM-QUERY should be Error (1) when strictDomLints=true');
 });
+
+const PROPS_GRAPH: ProjectGraph = {
+    root: PROJECT_ROOT,
+    layouts: new Map(),
+    components: new Map([
+        ['Counter', {
+            name: 'Counter',
+            filePath: '/tmp/zenith-site/src/components/Counter.zen',
+            type: 'component',
+            props: [
+                { name: 'label', type: 'string', required: true },
+                { name: 'start', type: 'number', required: false },
+                { name: 'compact', type: 'boolean | undefined', required: false }
+            ]
+        }],
+        ['Loose', {
+            name: 'Loose',
+            filePath: '/tmp/zenith-site/src/components/Loose.zen',
+            type: 'component',
+            props: [{ name: 'title', type: 'any', required: false, inferred: true }]
+        }]
+    ]),
+    pages: new Map(),
+    routes: []
+};
+
+function propDiagnostics(content: string) {
+    const document = doc('file:///tmp/zenith-site/src/pages/index.zen', content);
+    return collectContractDiagnostics(document, PROPS_GRAPH, DEFAULT_SETTINGS, PROJECT_ROOT)
+        .filter((d) => String(d.code).startsWith('zenith.prop.'));
+}
+
+test('unknown props are reported with a did-you-mean quick fix', () => {
+    const content = '<Counter lable="Clicks" class="x" data-id="1" />';
+    const diagnostics = propDiagnostics(content);
+
+    assert.deepEqual(diagnostics.map((d) => d.code), [UNKNOWN_PROP_DIAGNOSTIC_CODE, MISSING_PROP_DIAGNOSTIC_CODE]);
+    assert.equal(diagnostics[0].message, "Unknown prop 'lable' on <Counter>. Did you mean 'label'?");
+
+    const document = { ...doc('file:///tmp/zenith-site/src/pages/index.zen', content), offsetAt: () => 0 };
+    const actions = buildPropCodeActions(document, diagnostics);
+    assert.equal(actions.length, 1);
+    assert.equal(actions[0].title, "Change to 'label'");
+    assert.equal(actions[0].edit.changes[document.uri][0].newText, 'label');
+});
+
+test('missing required props are reported unless props are spread', () => {
+    assert.deepEqual(propDiagnostics('<Counter start={1} />').map((d) => d.message), ["Missing required prop 'label' on <Counter>."]);
+    assert.deepEqual(propDiagnostics('<Counter {...rest} />'), []);
+    assert.deepEqual(propDiagnostics('<Counter {label} />'), []);
+});
+
+test('string literals passed to number and boolean props are reported', () => {
+    const diagnostics = propDiagnostics('<Counter label="a" start="3" compact="yes" />');
+
+    assert.deepEqual(diagnostics.map((d) => d.code), [PROP_TYPE_DIAGNOSTIC_CODE, PROP_TYPE_DIAGNOSTIC_CODE]);
+    assert.equal(diagnostics[0].message, "Prop 'start' of <Counter> expects number, but a string literal was passed.");
+    assert.deepEqual(diagnostics[0].data, { replacement: 'start={3}', title: 'Change to start={3}' });
+    assert.equal(diagnostics[1].data, undefined);
+});
+
+test('components with inferred props are not checked for unknown props', () => {
+    assert.deepEqual(propDiagnostics('<Loose heading="x" />'), []);
+});
+
+const ROUTES_GRAPH: ProjectGraph = {
+    ...PROPS_GRAPH,
+    routes: buildRouteTable('/tmp/zenith-site/src/pages', ['index', 'blog/index', 'blog/[slug]', 'about'].map((page) => ({
+        name: page,
+        filePath: `/tmp/zenith-site/src/pages/${page}.zen`,
+        type: 'page' as const,
+        props: []
+    })), new Map())
+};
+
+function routeDiagnostics(content: string) {
+    const document = doc('file:///tmp/zenith-site/src/pages/index.zen', content);
+    return collectContractDiagnostics(document, ROUTES_GRAPH, DEFAULT_SETTINGS, PROJECT_ROOT)
+        .filter((d) => d.code === UNKNOWN_ROUTE_DIAGNOSTIC_CODE);
+}
+
+test('links and navigation calls to unknown routes are reported with closest matches', () => {
+    const content = [
+        '<script>',
+        "import { navigate, prefetch as warm } from 'zenith/router'",
+        "navigate('/abuot')",
+        "warm('/blog/first-post?ref=home')",
+        '</script>',
+        '<ZenLink to="/blgo">Blog</ZenLink>',
+        '<ZenLink to="https://example.com">External</ZenLink>',
+        '<button on:click={() => navigate(`/blgo/${slug}`)}>Go</button>'
+    ].join('\n');
+    const diagnostics = routeDiagnostics(content);
+
+    assert.deepEqual(diagnostics.map((d) => d.message), [
+        "No route matches '/abuot'. Did you mean '/about'?",
+        "No route matches '/blgo'. Did you mean '/blog'?"
+    ]);
+
+    const document = { ...doc('file:///tmp/zenith-site/src/pages/index.zen', content), offsetAt: () => 0 };
+    const actions = buildRouteCodeActions(document, diagnostics.slice(1));
+    assert.deepEqual(actions.map((action) => action.title), ["Change to '/blog'"]);
+    assert.equal(actions[0].isPreferred, true);
+    assert.deepEqual(actions[0].edit.changes[document.uri][0].range, diagnostics[1].range);
+});
+
+const NESTED_GRAPH: ProjectGraph = {
+    root: '/tmp/zenith-site',
+    layouts: new Map(),
+    components: new Map(['forms/Input', 'ui/Input', 'forms/Select'].map((relative) => {
+        const [dir, base] = relative.split('/');
+        const name = `${dir[0].toUpperCase()}${dir.slice(1)}${base}`;
+        return [name, { name, filePath: `/tmp/zenith-site/src/components/${relative}.zen`, type: 'component' as const, props: [] }];
+    })),
+    pages: new Map(),
+    routes: []
+};
+
+test('nested components resolve by qualified name or explicit import', () => {
+    const content = [
+        '<script>',
+        "import Input from '../components/ui/Input.zen'",
+        '</script>',
+        '<FormsInput /><FormsSelect /><Input />'
+    ].join('\n');
+    const document = doc('file:///tmp/zenith-site/src/pages/index.zen', content);
+
+    assert.deepEqual(collectContractDiagnostics(document, NESTED_GRAPH, DEFAULT_SETTINGS, PROJECT_ROOT)
+        .filter((d) => d.source === 'zenith' && d.severity === 2 && d.code !== UNRESOLVED_IMPORT_DIAGNOSTIC_CODE), []);
+});
+
+test('the short name of a nested component is reported with its qualified name', () => {
+    const content = '<Select />';
+    const document = { ...doc('file:///tmp/zenith-site/src/pages/index.zen', content), offsetAt: () => 0 };
+    const diagnostics = collectContractDiagnostics(document, NESTED_GRAPH, DEFAULT_SETTINGS, PROJECT_ROOT)
+        .filter((d) => d.code === SHORT_COMPONENT_NAME_DIAGNOSTIC_CODE);
+
+    assert.deepEqual(diagnostics.map((d) => d.message), [
+        "Component '<Select>' is registered as '<FormsSelect>'. Use the qualified name or import the file explicitly."
+    ]);
+    assert.deepEqual(buildAmbiguousComponentCodeActions(document, diagnostics).map((action) => action.title), ['Use <FormsSelect>']);
+});
+
+test('short names shared by nested components are ambiguous with qualified-name quick fixes', () => {
+    const content = '<Input>a</Input>';
+    const document = { ...doc('file:///tmp/zenith-site/src/pages/index.zen', content), offsetAt: () => 0 };
+    const diagnostics = collectContractDiagnostics(document, NESTED_GRAPH, DEFAULT_SETTINGS, PROJECT_ROOT)
+        .filter((d) => d.code === AMBIGUOUS_COMPONENT_DIAGNOSTIC_CODE);
+
+    assert.deepEqual(diagnostics.map((d) => d.message), [
+        "Ambiguous component '<Input>': matches 'FormsInput', 'UiInput'. Use the qualified name or import the file explicitly."
+    ]);
+
+    const actions = buildAmbiguousComponentCodeActions(document, diagnostics);
+    assert.deepEqual(actions.map((action) => action.title), ['Use <FormsInput>', 'Use <UiInput>']);
+    assert.deepEqual(actions[0].edit.changes[document.uri].map((edit) => [edit.range.start.character, edit.newText]), [
+        [1, 'FormsInput'],
+        [10, 'FormsInput']
+    ]);
+});
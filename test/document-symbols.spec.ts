@@ -0,0 +1,51 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildDocumentSymbols, extractTopLevelCssRules } from '../src/document-symbols';
+import { SymbolKind } from '../src/protocol';
+import { createTextDocumentLike } from '../src/workspace';
+
+const URI = 'file:///tmp/zenith-site/src/pages/index.zen';
+
+test('outline lists script imports, states and functions', () => {
+    const text = "<script>\nimport { zenOnMount } from 'zenith'\nstate count = 0\nfunction inc() { count++ }\n</script>";
+    const [script] = buildDocumentSymbols(createTextDocumentLike(URI, text));
+
+    assert.equal(script?.name, '<script>');
+    assert.deepEqual(script?.children?.map((child) => [child.name, child.kind]), [
+        ['zenOnMount', SymbolKind.Module],
+        ['count', SymbolKind.Variable],
+        ['inc', SymbolKind.Function]
+    ]);
+});
+
+test('outline shows the element tree with components, slots and directives labeled', () => {
+    const text = '<RootLayout>\n  <ul id="list" class="a b">\n    <li zen:for="item in items" zen:if="item.visible"><Card /></li>\n  </ul>\n  <slot />\n</RootLayout>';
+    const [layout] = buildDocumentSymbols(createTextDocumentLike(URI, text));
+
+    assert.equal(layout?.name, 'RootLayout');
+    assert.equal(layout?.detail, 'component');
+    assert.equal(layout?.kind, SymbolKind.Class);
+
+    const [list, slot] = layout?.children ?? [];
+    assert.equal(list?.name, 'ul#list.a.b');
+    assert.equal(slot?.detail, 'slot');
+
+    const item = list?.children?.[0];
+    assert.equal(item?.kind, SymbolKind.Array);
+    assert.equal(item?.detail, 'zen:for item in items · zen:if item.visible');
+    assert.equal(item?.children?.[0]?.name, 'Card');
+});
+
+test('outline lists top-level style selectors and at-rules', () => {
+    const css = '\n  @import "x.css";\n  /* note { } */\n  nav a,\n  .btn { color: red; }\n  @media (min-width: 1px) { .x { a: b } }\n';
+    assert.deepEqual(extractTopLevelCssRules(css).map((rule) => rule.name), [
+        '@import "x.css"',
+        'nav a, .btn',
+        '@media (min-width: 1px)'
+    ]);
+
+    const [style] = buildDocumentSymbols(createTextDocumentLike(URI, `<style>${css}</style>`));
+    assert.equal(style?.children?.length, 3);
+    assert.equal(style?.children?.[1]?.kind, SymbolKind.Class);
+});
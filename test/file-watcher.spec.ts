@@ -0,0 +1,70 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { createFileWatcher, isWatchedFile, type WatchedFileEvent } from '../src/file-watcher';
+
+test('watched files are .zen, config, package, tsconfig and local CSS files', () => {
+    for (const filePath of [
+        '/site/src/pages/index.zen',
+        '/site/zenith.config.ts',
+        '/site/zenith.config.json',
+        '/site/package.json',
+        '/site/tsconfig.json',
+        '/site/jsconfig.json',
+        '/site/src/styles/app.css'
+    ]) {
+        assert.equal(isWatchedFile(filePath), true, filePath);
+    }
+
+    for (const filePath of [
+        '/site/src/utils/format.ts',
+        '/site/node_modules/pkg/dist/style.css',
+        '/site/node_modules/pkg/package.json',
+        '/site/.git/index',
+        '/site/zenith.config.yaml'
+    ]) {
+        assert.equal(isWatchedFile(filePath), false, filePath);
+    }
+});
+
+test('the built-in watcher batches events and maps them to created, changed and deleted', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenith-lsp-watch-'));
+    fs.mkdirSync(path.join(root, 'src/pages'), { recursive: true });
+    fs.mkdirSync(path.join(root, 'node_modules/pkg'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'src/pages/about.zen'), '<p />');
+
+    const batches: WatchedFileEvent[][] = [];
+    const watcher = createFileWatcher([root], (events) => batches.push(events), 30);
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 200));
+    const relative = (events: WatchedFileEvent[]) =>
+        events.map((event) => `${event.change} ${path.relative(root, event.filePath)}`).sort();
+
+    try {
+        fs.writeFileSync(path.join(root, 'src/pages/index.zen'), '<h1 />');
+        fs.appendFileSync(path.join(root, 'src/pages/index.zen'), '<p />');
+        fs.writeFileSync(path.join(root, 'src/pages/notes.txt'), 'ignored');
+        fs.writeFileSync(path.join(root, 'node_modules/pkg/style.css'), 'ignored');
+        await settle();
+        assert.deepEqual(batches.map(relative), [['created src/pages/index.zen']]);
+
+        fs.writeFileSync(path.join(root, 'src/pages/about.zen'), '<p>About</p>');
+        await settle();
+        assert.deepEqual(relative(batches[1]), ['changed src/pages/about.zen']);
+
+        fs.rmSync(path.join(root, 'src/pages/about.zen'));
+        await settle();
+        assert.deepEqual(relative(batches[2]), ['deleted src/pages/about.zen']);
+
+        // New directories are watched too.
+        fs.mkdirSync(path.join(root, 'src/components'));
+        await settle();
+        fs.writeFileSync(path.join(root, 'src/components/Card.zen'), '<div />');
+        await settle();
+        assert.deepEqual(relative(batches[batches.length - 1]), ['created src/components/Card.zen']);
+    } finally {
+        watcher.close();
+    }
+});
@@ -0,0 +1,155 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { UNRESOLVED_IMPORT_DIAGNOSTIC_CODE } from '../src/code-actions';
+import { findDefinition } from '../src/definition';
+import {
+    clearResolutionCaches,
+    collectUnresolvedImportDiagnostics,
+    getImportPathCompletions,
+    importsFile,
+    resolveImport
+} from '../src/module-resolution';
+import { parseZenDocument } from '../src/parser';
+import { filePathToUri } from '../src/uri';
+import { createTextDocumentLike } from '../src/workspace';
+
+function createProject(files: Record<string, string>): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenith-lsp-resolve-'));
+    for (const [relative, content] of Object.entries(files)) {
+        const fullPath = path.join(root, relative);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+    return root;
+}
+
+const PROJECT_FILES = {
+    'tsconfig.base.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'], '~lib': ['src/lib/index.ts'] } } }),
+    'tsconfig.json': '{\n  // comments are allowed\n  "extends": "./tsconfig.base.json"\n}',
+    'package.json': JSON.stringify({ dependencies: { 'date-kit': '1.0.0' }, devDependencies: { 'legacy-lib': '1.0.0' } }),
+    'src/lib/index.ts': 'export const lib = 1',
+    'src/lib/format.ts': 'export const format = 1',
+    'src/components/Card.zen': '<div />',
+    'src/pages/index.zen': '',
+    'node_modules/date-kit/package.json': JSON.stringify({
+        name: 'date-kit',
+        exports: { '.': { types: './types/index.d.ts', import: './esm/index.js' }, './locale/*': './esm/locale/*.js' }
+    }),
+    'node_modules/date-kit/esm/index.js': '',
+    'node_modules/date-kit/esm/locale/fr.js': '',
+    'node_modules/legacy-lib/package.json': JSON.stringify({ name: 'legacy-lib', main: 'lib/main' }),
+    'node_modules/legacy-lib/lib/main.js': ''
+};
+
+test('paths, baseUrl, relative files and package exports resolve to files', () => {
+    const root = createProject(PROJECT_FILES);
+    const page = path.join(root, 'src/pages/index.zen');
+    const resolve = (specifier: string) => resolveImport(specifier, page, root);
+
+    assert.deepEqual(resolve('@/lib/format'), { kind: 'file', filePath: path.join(root, 'src/lib/format.ts') });
+    assert.deepEqual(resolve('~lib'), { kind: 'file', filePath: path.join(root, 'src/lib/index.ts') });
+    assert.deepEqual(resolve('src/lib'), { kind: 'file', filePath: path.join(root, 'src/lib/index.ts') });
+    assert.deepEqual(resolve('../components/Card.zen'), { kind: 'file', filePath: path.join(root, 'src/components/Card.zen') });
+    assert.deepEqual(resolve('../lib/format.js'), { kind: 'file', filePath: path.join(root, 'src/lib/format.ts') });
+
+    assert.deepEqual(resolve('date-kit'), { kind: 'package', filePath: path.join(root, 'node_modules/date-kit/esm/index.js') });
+    assert.deepEqual(resolve('date-kit/locale/fr'), { kind: 'package', filePath: path.join(root, 'node_modules/date-kit/esm/locale/fr.js') });
+    assert.deepEqual(resolve('legacy-lib'), { kind: 'package', filePath: path.join(root, 'node_modules/legacy-lib/lib/main.js') });
+
+    assert.deepEqual(resolve('zenith:content'), { kind: 'virtual' });
+    assert.deepEqual(resolve('node:path'), { kind: 'builtin' });
+    assert.equal(resolve('date-kit/internal'), null);
+    assert.equal(resolve('@/lib/missing'), null);
+});
+
+test('unresolved imports are warned about once packages are installed', () => {
+    const root = createProject(PROJECT_FILES);
+    const page = path.join(root, 'src/pages/index.zen');
+    const text = [
+        '<script>',
+        "import { zenSignal } from 'zenith'",
+        "import { lib } from '@/lib'",
+        "import { gone } from '@/lib/gone'",
+        "import { format } from 'date-kit/internal'",
+        "import chart from 'chart-kit'",
+        "import 'tailwindcss'",
+        '</script>'
+    ].join('\n');
+    const document = createTextDocumentLike(filePathToUri(page), text);
+    const diagnostics = collectUnresolvedImportDiagnostics(document, parseZenDocument(text), page, root);
+
+    assert.deepEqual(diagnostics.map((diagnostic) => diagnostic.message), [
+        "Cannot resolve import '@/lib/gone'.",
+        "Cannot resolve './internal' in package 'date-kit'.",
+        "Cannot find package 'chart-kit'. Is it installed?"
+    ]);
+    assert.ok(diagnostics.every((diagnostic) => diagnostic.severity === 2 && diagnostic.code === UNRESOLVED_IMPORT_DIAGNOSTIC_CODE));
+    assert.equal(text.slice(document.offsetAt(diagnostics[0].range.start), document.offsetAt(diagnostics[0].range.end)), '@/lib/gone');
+
+    fs.rmSync(path.join(root, 'node_modules'), { recursive: true });
+    assert.deepEqual(collectUnresolvedImportDiagnostics(document, parseZenDocument(text), page, root).map((d) => d.message), [
+        "Cannot resolve import '@/lib/gone'."
+    ]);
+});
+
+test('go-to-definition on an import specifier opens the resolved module', () => {
+    const root = createProject(PROJECT_FILES);
+    const page = path.join(root, 'src/pages/index.zen');
+    const text = "<script>\nimport { format } from '@/lib/format'\nimport { x } from 'date-kit'\n</script>";
+    const document = createTextDocumentLike(filePathToUri(page), text);
+    const graph = { root, layouts: new Map(), components: new Map(), pages: new Map(), routes: [] };
+
+    const [aliased] = findDefinition(document, text.indexOf('lib/format'), graph);
+    assert.equal(aliased.uri, filePathToUri(path.join(root, 'src/lib/format.ts')));
+
+    const [packaged] = findDefinition(document, text.indexOf('date-kit') + 2, graph);
+    assert.equal(packaged.uri, filePathToUri(path.join(root, 'node_modules/date-kit/esm/index.js')));
+});
+
+test('import path completions list files, aliases and dependencies', () => {
+    const root = createProject(PROJECT_FILES);
+    const page = path.join(root, 'src/pages/index.zen');
+    const complete = (typed: string) => {
+        const text = `<script>\nimport x from '${typed}`;
+        return getImportPathCompletions(createTextDocumentLike(filePathToUri(page), text), text.length, page);
+    };
+
+    assert.deepEqual(complete('../').map((item) => item.textEdit.newText), ['../components/', '../lib/', '../pages/']);
+    assert.deepEqual(complete('@/lib/').map((item) => [item.label, item.textEdit.newText]), [
+        ['format.ts', '@/lib/format'],
+        ['index.ts', '@/lib/index']
+    ]);
+    assert.deepEqual(complete('').map((item) => item.label), ['@/', '~lib', 'date-kit', 'legacy-lib']);
+});
+
+test('edits to an extended tsconfig apply once the resolution caches are cleared', () => {
+    const root = createProject(PROJECT_FILES);
+    const page = path.join(root, 'src/pages/index.zen');
+    assert.ok(resolveImport('@/lib/format', page, root));
+
+    fs.writeFileSync(path.join(root, 'tsconfig.base.json'), JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '~/*': ['src/*'] } } }));
+    assert.ok(resolveImport('@/lib/format', page, root));
+
+    clearResolutionCaches();
+    assert.equal(resolveImport('@/lib/format', page, root), null);
+    assert.ok(resolveImport('~/lib/format', page, root));
+});
+
+test('documents importing a stylesheet are found before and after it is deleted', () => {
+    const root = createProject({ ...PROJECT_FILES, 'src/styles/app.css': '' });
+    const page = path.join(root, 'src/pages/index.zen');
+    const stylesheet = path.join(root, 'src/styles/app.css');
+    const importing = parseZenDocument("<script>\nimport '../styles/app.css'\n</script>");
+    const other = parseZenDocument("<script>\nimport '../styles/theme.css'\nimport { lib } from '@/lib'\n</script>");
+
+    assert.equal(importsFile(importing, page, root, stylesheet), true);
+    assert.equal(importsFile(other, page, root, stylesheet), false);
+
+    fs.rmSync(stylesheet);
+    assert.equal(importsFile(importing, page, root, stylesheet), true);
+    assert.equal(importsFile(other, page, root, stylesheet), false);
+});
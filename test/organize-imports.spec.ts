@@ -0,0 +1,96 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseZenithImports } from '../src/imports';
+import { buildOrganizeImportsCodeAction, organizeImports } from '../src/organize-imports';
+import { createTextDocumentLike } from '../src/workspace';
+
+const URI = 'file:///tmp/zenith-site/src/pages/index.zen';
+
+function organized(text: string): string {
+    const document = createTextDocumentLike(URI, text);
+    const edits = organizeImports(document);
+    let result = text;
+    for (const edit of [...edits].reverse()) {
+        result = result.slice(0, document.offsetAt(edit.range.start)) + edit.newText + result.slice(document.offsetAt(edit.range.end));
+    }
+    return result;
+}
+
+test('parseZenithImports reads multi-line imports from any module', () => {
+    const script = "import Card, { type Props as CardProps } from './Card.zen'\nimport {\n  zenEffect,\n  zenOnMount\n} from 'zenith'\nimport * as dates from 'date-fns'\n";
+    const imports = parseZenithImports(script);
+
+    assert.deepEqual(imports.map((imp) => [imp.module, imp.line, imp.specifiers]), [
+        ['./Card.zen', 1, ['Card', 'Props']],
+        ['zenith', 2, ['zenEffect', 'zenOnMount']],
+        ['date-fns', 6, ['* as dates']]
+    ]);
+    assert.deepEqual(imports[0].named, [{ name: 'Props', local: 'CardProps', localStart: script.indexOf('CardProps'), isType: true }]);
+    assert.equal(script.slice(imports[1].start, imports[1].end), "import {\n  zenEffect,\n  zenOnMount\n} from 'zenith'");
+});
+
+test('imports are grouped, sorted and merged', () => {
+    const text = [
+        '<script>',
+        "import Card from './Card.zen'",
+        "import { zenOnMount } from 'zenith'",
+        "import { format } from 'date-fns'",
+        "import './app.css'",
+        "import { getCollection } from 'zenith:content'",
+        "import { zenEffect } from 'zenith'",
+        "import { navigate } from 'zenith/router'",
+        'zenOnMount(() => navigate(format(new Date())))',
+        'zenEffect(() => getCollection())',
+        '</script>',
+        '<Card />'
+    ].join('\n');
+
+    assert.equal(organized(text), [
+        '<script>',
+        "import { zenEffect, zenOnMount } from 'zenith'",
+        "import { navigate } from 'zenith/router'",
+        '',
+        "import { getCollection } from 'zenith:content'",
+        '',
+        "import { format } from 'date-fns'",
+        '',
+        "import './app.css'",
+        "import Card from './Card.zen'",
+        'zenOnMount(() => navigate(format(new Date())))',
+        'zenEffect(() => getCollection())',
+        '</script>',
+        '<Card />'
+    ].join('\n'));
+});
+
+test('bindings unused in script and template are removed', () => {
+    const text = [
+        '<script>',
+        '  import {',
+        '    zenEffect,',
+        '    zenOnMount,',
+        '    zenSignal',
+        "  } from 'zenith'",
+        "  import Unused from './Unused.zen'",
+        '  const count = zenSignal(0)',
+        '</script>',
+        '<button onclick={() => zenEffect(count)}>+</button>'
+    ].join('\n');
+
+    assert.equal(organized(text), [
+        '<script>',
+        "  import { zenEffect, zenSignal } from 'zenith'",
+        '  const count = zenSignal(0)',
+        '</script>',
+        '<button onclick={() => zenEffect(count)}>+</button>'
+    ].join('\n'));
+});
+
+test('no action is offered when imports are already organized', () => {
+    const text = "<script>\nimport { zenEffect } from 'zenith'\n\nimport Card from './Card.zen'\nzenEffect(() => {})\n</script>\n<Card />";
+    assert.equal(buildOrganizeImportsCodeAction(createTextDocumentLike(URI, text)), null);
+
+    const action = buildOrganizeImportsCodeAction(createTextDocumentLike(URI, text.replace("'zenith'\n\n", "'zenith'\n")));
+    assert.equal(action?.kind, 'source.organizeImports');
+});
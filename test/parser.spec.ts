@@ -0,0 +1,89 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+    parseZenDocument,
+    findNodeAt,
+    findRawBlockAt,
+    findExpressionAt,
+    getScriptContent
+} from '../src/parser';
+
+test('parser records script, style, elements and expressions with exact offsets', () => {
+    const text = '<script>state count = 0</script>\n<div class="a">{count}</div>\n<style>.a { color: red; }</style>';
+    const doc = parseZenDocument(text);
+
+    assert.equal(doc.scripts.length, 1);
+    assert.equal(doc.scripts[0]?.content, 'state count = 0');
+    assert.equal(text.slice(doc.scripts[0]!.contentStart, doc.scripts[0]!.contentEnd), 'state count = 0');
+
+    assert.equal(doc.styles.length, 1);
+    assert.equal(doc.styles[0]?.content, '.a { color: red; }');
+
+    assert.equal(doc.elements.length, 1);
+    const div = doc.elements[0]!;
+    assert.equal(div.tagName, 'div');
+    assert.equal(text.slice(div.tagNameStart, div.tagNameEnd), 'div');
+    assert.equal(div.attributes[0]?.name, 'class');
+    assert.equal(div.attributes[0]?.value, 'a');
+    assert.equal(text.slice(div.start, div.end), '<div class="a">{count}</div>');
+
+    assert.equal(doc.expressions.length, 1);
+    assert.equal(doc.expressions[0]?.content, 'count');
+    assert.equal(doc.errors.length, 0);
+});
+
+test('parser balances braces and ignores braces inside strings', () => {
+    const text = '<p title="a > b" on:click={() => { save("}") }}>{ items.map((i) => `${i}}`) }</p>';
+    const doc = parseZenDocument(text);
+    const p = doc.elements[0]!;
+
+    assert.equal(p.attributes.length, 2);
+    assert.equal(p.attributes[0]?.value, 'a > b');
+    assert.equal(p.attributes[1]?.name, 'on:click');
+    assert.equal(p.attributes[1]?.kind, 'event');
+    assert.equal(p.attributes[1]?.value, '() => { save("}") }');
+    assert.equal(doc.expressions[0]?.content, ' items.map((i) => `${i}}`) ');
+    assert.equal(doc.errors.length, 0);
+});
+
+test('parser builds a tree and skips markup inside comments', () => {
+    const doc = parseZenDocument('<ul><!-- <Card> --><li zen:for="item in items">{item}</li></ul>');
+
+    assert.equal(doc.comments.length, 1);
+    assert.deepEqual(doc.elements.map((element) => element.tagName), ['ul', 'li']);
+    const li = doc.elements[1]!;
+    assert.equal(li.parent, doc.elements[0]);
+    assert.equal(li.attributes[0]?.kind, 'directive');
+    assert.equal(li.children[0]?.type, 'expression');
+});
+
+test('parser recovers from unterminated tags and expressions', () => {
+    const text = '<div>\n  <Card tit\n  <p>{cou</p>\n</div>';
+    const doc = parseZenDocument(text);
+
+    assert.deepEqual(doc.elements.map((element) => element.tagName), ['div', 'Card', 'p']);
+    assert.equal(doc.expressions[0]?.content, 'cou');
+    assert.equal(doc.expressions[0]?.closed, false);
+    assert.ok(doc.errors.length > 0);
+
+    const inCard = findNodeAt(doc, text.indexOf('tit') + 3);
+    assert.equal(inCard.inStartTag, true);
+    assert.equal(inCard.element?.tagName, 'Card');
+});
+
+test('position helpers locate script blocks, attribute values and expressions', () => {
+    const text = '<script>const a = 1</script><a href="/ab" on:click={go}>{a}</a>';
+    const doc = parseZenDocument(text);
+
+    assert.equal(findRawBlockAt(doc, text.indexOf('const'))?.type, 'script');
+    assert.equal(findRawBlockAt(doc, text.indexOf('<a')), null);
+
+    const inHref = findNodeAt(doc, text.indexOf('/ab') + 1);
+    assert.equal(inHref.attribute?.name, 'href');
+    assert.equal(inHref.inAttributeValue, true);
+
+    assert.equal(findExpressionAt(doc, text.indexOf('go'))?.content, 'go');
+    assert.equal(findExpressionAt(doc, text.indexOf('{a}') + 1)?.content, 'a');
+    assert.equal(getScriptContent(doc), 'const a = 1');
+});
@@ -0,0 +1,180 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { buildProjectGraph, getComponentName, updateProjectGraph } from '../src/project';
+import { findDependentDocuments, findReferences, mayReferenceComponent } from '../src/references';
+import { createTextDocumentLike } from '../src/workspace';
+import { filePathToUri } from '../src/uri';
+
+function createProject(files: Record<string, string>): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenith-lsp-refs-'));
+    for (const [relative, content] of Object.entries(files)) {
+        const fullPath = path.join(root, relative);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+    return root;
+}
+
+test('references find component tags across pages, layouts and components', () => {
+    const root = createProject({
+        'src/components/Card.zen': '<div class="card"><slot /></div>',
+        'src/components/Grid.zen': '<section><Card>a</Card><Card /></section>',
+        'src/layouts/RootLayout.zen': '<main><slot /></main>',
+        'src/pages/index.zen': '<RootLayout><!-- <Card> -->\n<p>Card</p>\n<Card>b</Card></RootLayout>'
+    });
+    const graph = buildProjectGraph(root);
+    const pagePath = path.join(root, 'src/pages/index.zen');
+    const page = createTextDocumentLike(filePathToUri(pagePath), fs.readFileSync(pagePath, 'utf-8'));
+    const offset = page.getText().indexOf('<Card>b') + 2;
+
+    const locations = findReferences(page, offset, graph, true);
+    const summary = locations.map((location) => `${path.basename(location.uri)}:${location.range.start.line}:${location.range.start.character}`);
+
+    assert.deepEqual(summary, [
+        'Card.zen:0:0',
+        'Grid.zen:0:10',
+        'Grid.zen:0:18',
+        'Grid.zen:0:24',
+        'index.zen:2:1',
+        'index.zen:2:9'
+    ]);
+
+    const withoutDeclaration = findReferences(page, offset, graph, false);
+    assert.equal(withoutDeclaration.length, 5);
+});
+
+test('references prefer open document buffers over files on disk', () => {
+    const root = createProject({
+        'src/components/Card.zen': '<div />',
+        'src/pages/index.zen': '<Card />'
+    });
+    const graph = buildProjectGraph(root);
+    const pageUri = filePathToUri(path.join(root, 'src/pages/index.zen'));
+    const edited = createTextDocumentLike(pageUri, '<Card />\n<Card />');
+
+    const locations = findReferences(edited, 2, graph, false, (uri) => (uri === pageUri ? edited : undefined));
+    assert.equal(locations.length, 2);
+});
+
+test('file events update single graph entries and notify dependent documents', () => {
+    const root = createProject({
+        'src/components/Card.zen': '<script>\ninterface Props { title: string }\n</script>\n<div>{title}</div>',
+        'src/components/Grid.zen': '<section />',
+        'src/pages/index.zen': '<Card title="a" />',
+        'src/pages/about.zen': '<ZenLink to="/">Home</ZenLink>'
+    });
+    const graph = buildProjectGraph(root);
+    const open = ['src/pages/index.zen', 'src/pages/about.zen', 'src/components/Grid.zen'].map((relative) => {
+        const filePath = path.join(root, relative);
+        return createTextDocumentLike(filePathToUri(filePath), fs.readFileSync(filePath, 'utf-8'));
+    });
+    const names = (documents: Array<{ uri: string }>) => documents.map((document) => path.basename(document.uri));
+
+    const cardPath = path.join(root, 'src/components/Card.zen');
+    fs.writeFileSync(cardPath, '<script>\ninterface Props { title: string; size?: number }\n</script>\n<div />');
+    const cardChange = updateProjectGraph(graph, cardPath, 'changed');
+    assert.ok(cardChange);
+    assert.deepEqual(graph.components.get('Card')?.props.map((prop) => prop.name), ['title', 'size']);
+    assert.deepEqual(names(findDependentDocuments(cardChange, open)), ['index.zen']);
+
+    const blogPath = path.join(root, 'src/pages/blog/[slug].zen');
+    fs.mkdirSync(path.dirname(blogPath), { recursive: true });
+    fs.writeFileSync(blogPath, '<article />');
+    const pageChange = updateProjectGraph(graph, blogPath, 'created');
+    assert.ok(pageChange?.routesChanged);
+    assert.deepEqual(graph.routes.map((route) => route.path), ['/', '/about', '/blog/[slug]']);
+    assert.deepEqual(names(findDependentDocuments(pageChange, open)), ['about.zen']);
+
+    fs.rmSync(path.join(root, 'src/components/Grid.zen'));
+    const gridChange = updateProjectGraph(graph, path.join(root, 'src/components/Grid.zen'), 'deleted');
+    assert.equal(graph.components.has('Grid'), false);
+    assert.deepEqual(names(findDependentDocuments(gridChange!, open)), ['Grid.zen']);
+
+    assert.equal(updateProjectGraph(graph, path.join(root, 'src/styles/app.css'), 'changed'), null);
+});
+
+test('component names prefix the basename with the PascalCased directories', () => {
+    const name = (relative: string) => getComponentName('/site/src/components', `/site/src/components/${relative}`);
+
+    assert.equal(name('Card.zen'), 'Card');
+    assert.equal(name('forms/Input.zen'), 'FormsInput');
+    assert.equal(name('ui/button-group/Item.zen'), 'UiButtonGroupItem');
+    assert.equal(name('ui/button_group/Item.zen'), 'UiButtonGroupItem');
+    assert.equal(name('Forms/v2/Input.zen'), 'FormsV2Input');
+});
+
+test('nested components keep their compiler names in the graph', () => {
+    const root = createProject({
+        'src/components/forms/Input.zen': '<input />',
+        'src/components/ui/Input.zen': '<input class="ui" />',
+        'src/components/forms/Select.zen': '<select />',
+        'src/pages/index.zen': '<FormsSelect /><Select />'
+    });
+    const graph = buildProjectGraph(root);
+    assert.deepEqual([...graph.components.keys()].sort(), ['FormsInput', 'FormsSelect', 'UiInput']);
+
+    const pagePath = path.join(root, 'src/pages/index.zen');
+    const page = createTextDocumentLike(filePathToUri(pagePath), fs.readFileSync(pagePath, 'utf-8'));
+    // `<Select />` is the short name, which does not resolve.
+    const locations = findReferences(page, 2, graph, false);
+    assert.deepEqual(locations.map((location) => location.range.start.character), [1]);
+});
+
+test('references resolve tags through each document\'s imports', () => {
+    const root = createProject({
+        'src/components/forms/Input.zen': '<input />',
+        'src/components/ui/Input.zen': '<input class="ui" />',
+        'src/pages/index.zen': "<script>\nimport Input from '../components/forms/Input.zen'\n</script>\n<Input />",
+        'src/pages/login.zen': "<script>\nimport Input from '../components/ui/Input.zen'\n</script>\n<Input /><FormsInput />"
+    });
+    const graph = buildProjectGraph(root);
+    const pagePath = path.join(root, 'src/pages/index.zen');
+    const page = createTextDocumentLike(filePathToUri(pagePath), fs.readFileSync(pagePath, 'utf-8'));
+
+    const locations = findReferences(page, page.getText().lastIndexOf('Input'), graph, false);
+    assert.deepEqual(locations.map((location) => `${path.basename(location.uri)}:${location.range.start.line}:${location.range.start.character}`), [
+        'index.zen:3:1',
+        'login.zen:3:10'
+    ]);
+});
+
+test('dependent documents include short-name and imported uses of nested components', () => {
+    const root = createProject({
+        'src/components/forms/Input.zen': '<input />',
+        'src/pages/index.zen': '<Input />',
+        'src/pages/login.zen': "<script>\nimport TextBox from '../components/forms/Input.zen'\n</script>\n<TextBox />",
+        'src/pages/about.zen': '<p />'
+    });
+    const graph = buildProjectGraph(root);
+    const open = ['src/pages/index.zen', 'src/pages/login.zen', 'src/pages/about.zen'].map((relative) => {
+        const filePath = path.join(root, relative);
+        return createTextDocumentLike(filePathToUri(filePath), fs.readFileSync(filePath, 'utf-8'));
+    });
+    const names = (documents: Array<{ uri: string }>) => documents.map((document) => path.basename(document.uri));
+
+    const formsPath = path.join(root, 'src/components/forms/Input.zen');
+    fs.writeFileSync(formsPath, '<input required />');
+    assert.deepEqual(names(findDependentDocuments(updateProjectGraph(graph, formsPath, 'changed')!, open)), ['index.zen', 'login.zen']);
+
+    // A sibling with the same basename makes `<Input>` ambiguous.
+    const uiPath = path.join(root, 'src/components/ui/Input.zen');
+    fs.mkdirSync(path.dirname(uiPath), { recursive: true });
+    fs.writeFileSync(uiPath, '<input class="ui" />');
+    assert.deepEqual(names(findDependentDocuments(updateProjectGraph(graph, uiPath, 'created')!, open)), ['index.zen']);
+
+    fs.rmSync(uiPath);
+    assert.deepEqual(names(findDependentDocuments(updateProjectGraph(graph, uiPath, 'deleted')!, open)), ['index.zen']);
+});
+
+test('documents that cannot mention a component are skipped before parsing', () => {
+    const input = { name: 'FormsInput', filePath: '/site/src/components/forms/Input.zen', type: 'component' as const, props: [] };
+
+    assert.equal(mayReferenceComponent('<FormsInput />', input), true);
+    assert.equal(mayReferenceComponent('<Input>', input), true);
+    assert.equal(mayReferenceComponent("import TextBox from './forms/Input.zen'", input), true);
+    assert.equal(mayReferenceComponent('<p>Input</p><Select />', input), false);
+});
@@ -0,0 +1,203 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { buildProjectGraph } from '../src/project';
+import { prepareRename, rename, type ZenithRenameFile, type ZenithTextDocumentEdit } from '../src/rename';
+import { createTextDocumentLike } from '../src/workspace';
+import { filePathToUri } from '../src/uri';
+
+function createProject(files: Record<string, string>): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenith-lsp-rename-'));
+    for (const [relative, content] of Object.entries(files)) {
+        const fullPath = path.join(root, relative);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+    return root;
+}
+
+function openPage(root: string, relative: string) {
+    const filePath = path.join(root, relative);
+    return createTextDocumentLike(filePathToUri(filePath), fs.readFileSync(filePath, 'utf-8'));
+}
+
+test('component rename rewrites every tag and renames the component file last', () => {
+    const root = createProject({
+        'src/components/HeroBanner.zen': '<section><slot /></section>',
+        'src/components/Landing.zen': '<div><HeroBanner /></div>',
+        'src/pages/index.zen': '<main><HeroBanner>Hi</HeroBanner></main>'
+    });
+    const graph = buildProjectGraph(root);
+    const page = openPage(root, 'src/pages/index.zen');
+    const offset = page.getText().indexOf('HeroBanner');
+
+    const prepared = prepareRename(page, offset, graph);
+    assert.equal(prepared?.placeholder, 'HeroBanner');
+
+    const result = rename(page, offset, 'Hero', graph);
+    assert.ok(result && 'edit' in result);
+
+    const changes = result.edit.documentChanges;
+    const textEdits = changes.filter((change): change is ZenithTextDocumentEdit => !('kind' in change));
+    const fileRename = changes[changes.length - 1] as ZenithRenameFile;
+
+    assert.equal(textEdits.reduce((count, change) => count + change.edits.length, 0), 3);
+    assert.ok(textEdits.every((change) => change.edits.every((edit) => edit.newText === 'Hero')));
+    assert.equal(fileRename.kind, 'rename');
+    assert.equal(fileRename.oldUri, filePathToUri(path.join(root, 'src/components/HeroBanner.zen')));
+    assert.equal(fileRename.newUri, filePathToUri(path.join(root, 'src/components/Hero.zen')));
+});
+
+test('component rename rejects invalid and conflicting names', () => {
+    const root = createProject({
+        'src/components/Card.zen': '<div />',
+        'src/layouts/RootLayout.zen': '<main><slot /></main>',
+        'src/pages/index.zen': '<RootLayout><p><Card /></p></RootLayout>'
+    });
+    const graph = buildProjectGraph(root);
+    const page = openPage(root, 'src/pages/index.zen');
+    const offset = page.getText().indexOf('Card');
+
+    assert.deepEqual(rename(page, offset, 'card', graph), {
+        error: "'card' is not a valid component name. Use PascalCase (e.g. HeroBanner)."
+    });
+    assert.deepEqual(rename(page, offset, 'RootLayout', graph), {
+        error: "A component or layout named 'RootLayout' already exists."
+    });
+    assert.equal(prepareRename(page, page.getText().indexOf('<p>') + 1, graph), null);
+});
+
+test('renaming an imported component rewrites the import specifier and binding', () => {
+    const root = createProject({
+        'src/components/forms/Input.zen': '<input />',
+        'src/components/ui/Input.zen': '<input class="ui" />',
+        'src/pages/index.zen': "<script>\nimport Input from '../components/forms/Input.zen'\n</script>\n<Input />",
+        'src/pages/login.zen': "<script>\nimport TextBox from '../components/forms/Input.zen'\nimport Input from '../components/ui/Input.zen'\n</script>\n<TextBox /><Input /><FormsInput></FormsInput>"
+    });
+    const graph = buildProjectGraph(root);
+    const page = openPage(root, 'src/pages/index.zen');
+    const offset = page.getText().lastIndexOf('Input');
+
+    assert.equal(prepareRename(page, offset, graph)?.placeholder, 'Input');
+    const result = rename(page, offset, 'Field', graph);
+    assert.ok(result && 'edit' in result);
+
+    const rewritten = (relative: string) => {
+        const document = openPage(root, relative);
+        const change = result.edit.documentChanges.find((candidate): candidate is ZenithTextDocumentEdit =>
+            'edits' in candidate && candidate.textDocument.uri === document.uri);
+        const edits = (change?.edits ?? [])
+            .map((edit) => ({ start: document.offsetAt(edit.range.start), end: document.offsetAt(edit.range.end), newText: edit.newText }))
+            .sort((a, b) => b.start - a.start);
+
+        let output = document.getText();
+        for (const edit of edits) {
+            output = output.slice(0, edit.start) + edit.newText + output.slice(edit.end);
+        }
+        return output;
+    };
+
+    assert.equal(rewritten('src/pages/index.zen'), "<script>\nimport Field from '../components/forms/Field.zen'\n</script>\n<Field />");
+    assert.equal(
+        rewritten('src/pages/login.zen'),
+        "<script>\nimport TextBox from '../components/forms/Field.zen'\nimport Input from '../components/ui/Input.zen'\n</script>\n<TextBox /><Input /><FormsField></FormsField>"
+    );
+
+    const fileRename = result.edit.documentChanges[result.edit.documentChanges.length - 1] as ZenithRenameFile;
+    assert.equal(fileRename.newUri, filePathToUri(path.join(root, 'src/components/forms/Field.zen')));
+});
+
+const PAGE_URI = 'file:///tmp/zenith-site/src/pages/index.zen';
+
+function applyEdits(text: string, result: ReturnType<typeof rename>): string {
+    assert.ok(result && 'edit' in result);
+    const document = createTextDocumentLike(PAGE_URI, text);
+    const edits = result.edit.documentChanges
+        .flatMap((change) => ('edits' in change ? change.edits : []))
+        .map((edit) => ({ start: document.offsetAt(edit.range.start), end: document.offsetAt(edit.range.end), newText: edit.newText }))
+        .sort((a, b) => b.start - a.start);
+
+    let output = text;
+    for (const edit of edits) {
+        output = output.slice(0, edit.start) + edit.newText + output.slice(edit.end);
+    }
+    return output;
+}
+
+test('state rename spans script, expressions, directives and handlers but not loop shadows', () => {
+    const text = [
+        '<script>',
+        'state count = 0',
+        'function inc() { count++; const label = `n=${count}`; return { count: label } }',
+        '</script>',
+        '<p zen:if="count > 0" on:click={() => count = 0}>{count} {user.count} "count"</p>',
+        '<li zen:for="count in counts">{count}</li>'
+    ].join('\n');
+    const document = createTextDocumentLike(PAGE_URI, text);
+
+    const result = rename(document, text.indexOf('{count}') + 2, 'total', null);
+    assert.equal(applyEdits(text, result), [
+        '<script>',
+        'state total = 0',
+        'function inc() { total++; const label = `n=${total}`; return { count: label } }',
+        '</script>',
+        '<p zen:if="total > 0" on:click={() => total = 0}>{total} {user.count} "count"</p>',
+        '<li zen:for="count in counts">{count}</li>'
+    ].join('\n'));
+});
+
+test('state rename skips shadowing parameters and locals and expands shorthand properties', () => {
+    const text = [
+        '<script>',
+        'state count = 0',
+        'function f(count) { count++ }',
+        'function g() { if (count) { const count = 2; return count } return { count } }',
+        'try { count++ } catch (count) { count }',
+        'const snapshot = { count, other: count }',
+        '</script>',
+        '<button on:click={(count) => count + 1} :data={{ count }}>{count}</button>'
+    ].join('\n');
+    const document = createTextDocumentLike(PAGE_URI, text);
+
+    const result = rename(document, text.indexOf('state count') + 6, 'next', null);
+    assert.equal(applyEdits(text, result), [
+        '<script>',
+        'state next = 0',
+        'function f(count) { count++ }',
+        'function g() { if (next) { const count = 2; return count } return { count: next } }',
+        'try { next++ } catch (count) { count }',
+        'const snapshot = { count: next, other: next }',
+        '</script>',
+        '<button on:click={(count) => count + 1} :data={{ count: next }}>{next}</button>'
+    ].join('\n'));
+});
+
+test('loop variable rename stays inside its element and respects nested shadowing', () => {
+    const text = [
+        '<script>state item = 1</script>',
+        '<ul zen:for="item, i in items" :title="item.name">',
+        '  <li>{item} {i}</li>',
+        '  <li zen:for="item in item.children">{item}</li>',
+        '</ul>',
+        '<p>{item}</p>'
+    ].join('\n');
+    const document = createTextDocumentLike(PAGE_URI, text);
+
+    const prepared = prepareRename(document, text.indexOf('{item}') + 1, null);
+    assert.equal(prepared?.placeholder, 'item');
+
+    const result = rename(document, text.indexOf('{item}') + 1, 'entry', null);
+    assert.equal(applyEdits(text, result), [
+        '<script>state item = 1</script>',
+        '<ul zen:for="entry, i in items" :title="entry.name">',
+        '  <li>{entry} {i}</li>',
+        '  <li zen:for="item in entry.children">{item}</li>',
+        '</ul>',
+        '<p>{item}</p>'
+    ].join('\n'));
+
+    assert.deepEqual(rename(document, text.indexOf('{i}') + 1, 'class', null), { error: "'class' is not a valid identifier." });
+});
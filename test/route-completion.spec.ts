@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { getRouteCompletions, getRouteSnippet } from '../src/route-completion';
+import { buildRouteTable } from '../src/routes';
+import { createTextDocumentLike } from '../src/workspace';
+
+const ROUTES = buildRouteTable('/p/src/pages', ['index', 'blog/[slug]', 'docs/[...path]'].map((page) => ({
+    name: page,
+    filePath: `/p/src/pages/${page}.zen`,
+    type: 'page' as const,
+    props: []
+})), new Map());
+
+function completionsAt(text: string, marker = '|') {
+    const offset = text.indexOf(marker);
+    const document = createTextDocumentLike('file:///p/src/pages/index.zen', text.replace(marker, ''));
+    return getRouteCompletions(document, ROUTES, offset);
+}
+
+test('dynamic and catch-all segments become snippet placeholders', () => {
+    assert.deepEqual(ROUTES.map(getRouteSnippet), ['/', '/blog/${1:slug}', '/docs/${1:path}']);
+});
+
+test('routes are offered inside ZenLink to values', () => {
+    const items = completionsAt('<ZenLink to="/bl|">Blog</ZenLink>');
+
+    assert.deepEqual(items?.map((item) => item.label), ['/', '/blog/[slug]', '/docs/[...path]']);
+    assert.deepEqual(items?.[1].textEdit, {
+        range: { start: { line: 0, character: 13 }, end: { line: 0, character: 16 } },
+        newText: '/blog/${1:slug}'
+    });
+    assert.equal(items?.[1].detail, 'route (slug)');
+});
+
+test('routes are offered in router function strings and nowhere else', () => {
+    const script = "<script>\nimport { isActive } from 'zenith/router'\nconst a = isActive('|')\n</script>";
+    assert.equal(completionsAt(script)?.length, 3);
+    assert.equal(completionsAt('<a href="/|">x</a>'), null);
+    assert.equal(completionsAt("<script>\nconst a = isActive('|')\n</script>"), null);
+});
@@ -0,0 +1,54 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseZenDocument } from '../src/parser';
+import {
+    collectRouteParamDiagnostics,
+    getPageRouteParams,
+    getRouteParamCompletions,
+    getRouteParamHover
+} from '../src/route-params';
+import { createTextDocumentLike } from '../src/workspace';
+
+const PAGE_URI = 'file:///tmp/zenith-site/src/pages/blog/[slug].zen';
+
+function page(text: string, uri = PAGE_URI) {
+    return createTextDocumentLike(uri, text);
+}
+
+test('page params come from the dynamic segments of the page path', () => {
+    assert.deepEqual(getPageRouteParams('/tmp/zenith-site/src/pages/docs/[version]/[...path].zen'), {
+        path: '/docs/[version]/[...path]',
+        params: [{ name: 'version', catchAll: false }, { name: 'path', catchAll: true }]
+    });
+    assert.equal(getPageRouteParams('/tmp/zenith-site/src/components/Card.zen'), null);
+});
+
+test('route.params completes to the page params', () => {
+    const text = "<script>\nimport { useRoute } from 'zenith/router'\nconst route = useRoute()\nconst s = route.params.\n</script>";
+    const items = getRouteParamCompletions(page(text), text.indexOf('params.') + 'params.'.length);
+
+    assert.deepEqual(items?.map((item) => item.label), ['slug']);
+    assert.equal(getRouteParamCompletions(page(text), text.indexOf('useRoute()')), null);
+});
+
+test('hover on a param shows the segment it comes from', () => {
+    const text = "<script>\nimport { useRoute } from 'zenith/router'\nconst { params } = useRoute()\n</script>\n<h1>{params.slug}</h1>";
+    const hover = getRouteParamHover(page(text), text.indexOf('slug}') + 1);
+
+    assert.ok(hover?.contents.includes('(route param) slug: string'));
+    assert.ok(hover?.contents.includes('`/blog/[slug]`'));
+});
+
+test('reading an undeclared param is reported in pages only', () => {
+    const text = "<script>\nimport { useRoute } from 'zenith/router'\nconst route = useRoute()\nconst a = route.params.slg\nconst b = route.params.slug\n</script>";
+
+    assert.deepEqual(collectRouteParamDiagnostics(page(text), parseZenDocument(text)).map((d) => d.message), [
+        "Unknown route param 'slg': route '/blog/[slug]' declares 'slug'. Did you mean 'slug'?"
+    ]);
+    assert.deepEqual(collectRouteParamDiagnostics(page(text, 'file:///tmp/zenith-site/src/pages/index.zen'), parseZenDocument(text)).map((d) => d.message), [
+        "Unknown route param 'slg': route '/' has no params.",
+        "Unknown route param 'slug': route '/' has no params."
+    ]);
+    assert.deepEqual(collectRouteParamDiagnostics(page(text, 'file:///tmp/zenith-site/src/components/Card.zen'), parseZenDocument(text)), []);
+});
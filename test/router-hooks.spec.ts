@@ -0,0 +1,80 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseZenDocument } from '../src/parser';
+import { collectRouterHookDiagnostics } from '../src/router-hooks';
+import { buildAutoImportCodeActions, buildRouterHookCodeActions, ROUTER_HOOK_IMPORT_DIAGNOSTIC_CODE, ROUTER_HOOK_PLACEMENT_DIAGNOSTIC_CODE } from '../src/code-actions';
+import { createTextDocumentLike } from '../src/workspace';
+
+const URI = 'file:///tmp/zenith-site/src/pages/index.zen';
+
+function diagnose(text: string) {
+    const document = createTextDocumentLike(URI, text);
+    return { document, diagnostics: collectRouterHookDiagnostics(document, parseZenDocument(text)) };
+}
+
+function applyEdits(text: string, document: ReturnType<typeof createTextDocumentLike>, edits: Array<{ range: { start: { line: number; character: number }; end: { line: number; character: number } }; newText: string }>): string {
+    return [...edits]
+        .map((edit) => ({ start: document.offsetAt(edit.range.start), end: document.offsetAt(edit.range.end), newText: edit.newText }))
+        .sort((a, b) => b.start - a.start)
+        .reduce((result, edit) => result.slice(0, edit.start) + edit.newText + result.slice(edit.end), text);
+}
+
+const IMPORT = "import { useRoute, useRouter } from 'zenith/router'";
+
+test('top-level hook calls are accepted', () => {
+    const { diagnostics } = diagnose(`<script>\n${IMPORT}\nconst route = useRoute()\nconst { navigate } = useRouter()\n</script>`);
+    assert.deepEqual(diagnostics, []);
+});
+
+test('hooks in functions, callbacks and conditionals are errors', () => {
+    const { diagnostics } = diagnose([
+        '<script>',
+        IMPORT,
+        'function load() { const route = useRoute() }',
+        'zenOnMount(() => useRouter().navigate("/"))',
+        'if (ready) { useRoute() }',
+        '</script>'
+    ].join('\n'));
+
+    assert.deepEqual(diagnostics.map((d) => [d.code, d.severity, d.message]), [
+        [ROUTER_HOOK_PLACEMENT_DIAGNOSTIC_CODE, 1, 'useRoute() is called inside a function. Must be called at top-level script scope.'],
+        [ROUTER_HOOK_PLACEMENT_DIAGNOSTIC_CODE, 1, 'useRouter() is called inside a callback. Must be called at top-level script scope.'],
+        [ROUTER_HOOK_PLACEMENT_DIAGNOSTIC_CODE, 1, 'useRoute() is called inside a conditional. Must be called at top-level script scope.']
+    ]);
+});
+
+test('the quick fix hoists a nested declaration above its statement', () => {
+    const text = `<script>\n${IMPORT}\nfunction load() {\n    const route = useRoute()\n    return route.path\n}\n</script>`;
+    const { document, diagnostics } = diagnose(text);
+    const actions = buildRouterHookCodeActions(document, diagnostics);
+
+    assert.equal(actions[0].title, 'Hoist useRoute() to top-level script scope');
+    assert.equal(
+        applyEdits(text, document, actions[0].edit.changes[URI]),
+        `<script>\n${IMPORT}\nconst route = useRoute()\nfunction load() {\n    return route.path\n}\n</script>`
+    );
+});
+
+test('the quick fix binds an inline hook call at top level', () => {
+    const text = `<script>\n${IMPORT}\nconst route = 1\nzenOnMount(() => useRoute().path)\n</script>`;
+    const { document, diagnostics } = diagnose(text);
+    const actions = buildRouterHookCodeActions(document, diagnostics);
+
+    assert.equal(
+        applyEdits(text, document, actions[0].edit.changes[URI]),
+        `<script>\n${IMPORT}\nconst route = 1\nconst route2 = useRoute();\nzenOnMount(() => route2.path)\n</script>`
+    );
+});
+
+test('hooks used without a zenith/router import are warned about', () => {
+    const { document, diagnostics } = diagnose("<script>\nimport { useRoute as current } from 'zenith/router'\nconst a = current()\nconst b = useRouter()\n</script>");
+
+    assert.deepEqual(diagnostics.map((d) => [d.code, d.message]), [
+        [ROUTER_HOOK_IMPORT_DIAGNOSTIC_CODE, "useRouter() is used without an import from 'zenith/router'."]
+    ]);
+
+    const actions = buildAutoImportCodeActions(document, diagnostics);
+    assert.equal(actions[0].title, "Import 'useRouter' from 'zenith/router'");
+    assert.equal(actions[0].edit.changes[URI][0].newText, ', useRouter');
+});
@@ -0,0 +1,109 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { buildProjectGraph } from '../src/project';
+import { parseZenDocument } from '../src/parser';
+import {
+    buildRouteTable,
+    collectRouteReferences,
+    getPageRoutePath,
+    matchRoute,
+    parseRouteSegment,
+    suggestRoutes
+} from '../src/routes';
+
+function createProject(files: Record<string, string>): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenith-lsp-routes-'));
+    for (const [relative, content] of Object.entries(files)) {
+        const fullPath = path.join(root, relative);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+    return root;
+}
+
+test('page route paths are derived from the pages directory', () => {
+    assert.equal(getPageRoutePath('/p/src/pages', '/p/src/pages/index.zen'), '/');
+    assert.equal(getPageRoutePath('/p/src/pages', '/p/src/pages/blog/[slug].zen'), '/blog/[slug]');
+    assert.equal(getPageRoutePath('/p/src/pages', '/p/src/pages/docs/index.zen'), '/docs');
+});
+
+test('route segments are classified as static, dynamic or catch-all', () => {
+    assert.deepEqual(parseRouteSegment('blog'), { kind: 'static', value: 'blog' });
+    assert.deepEqual(parseRouteSegment('[slug]'), { kind: 'dynamic', value: '[slug]', param: 'slug' });
+    assert.deepEqual(parseRouteSegment('[...path]'), { kind: 'catch-all', value: '[...path]', param: 'path' });
+    assert.deepEqual(parseRouteSegment('[[...path]]'), { kind: 'optional-catch-all', value: '[[...path]]', param: 'path' });
+});
+
+test('route table keeps pages that share a basename and records their layouts', () => {
+    const root = createProject({
+        'src/layouts/DocsLayout.zen': '<main><slot /></main>',
+        'src/pages/index.zen': '<h1>Home</h1>',
+        'src/pages/blog/[slug].zen': '<article />',
+        'src/pages/docs/[slug].zen': '<DocsLayout><article /></DocsLayout>',
+        'src/pages/docs/[...path].zen': '<DocsLayout />',
+        'src/pages/docs/intro.zen': '<DocsLayout />'
+    });
+
+    const graph = buildProjectGraph(root);
+
+    assert.deepEqual([...graph.pages.keys()].sort(), ['blog/[slug]', 'docs/[...path]', 'docs/[slug]', 'docs/intro', 'index']);
+    assert.deepEqual(graph.routes.map((route) => route.path), [
+        '/',
+        '/blog/[slug]',
+        '/docs/intro',
+        '/docs/[slug]',
+        '/docs/[...path]'
+    ]);
+
+    const docs = graph.routes.find((route) => route.path === '/docs/[slug]');
+    assert.equal(docs?.filePath, path.join(root, 'src/pages/docs/[slug].zen'));
+    assert.equal(docs?.layout, 'DocsLayout');
+    assert.deepEqual(docs?.params, ['slug']);
+    assert.equal(graph.routes.find((route) => route.path === '/blog/[slug]')?.layout, null);
+    assert.deepEqual(graph.routes.find((route) => route.path === '/docs/[...path]')?.segments.map((segment) => segment.kind), ['static', 'catch-all']);
+});
+
+const ROUTES = buildRouteTable('/p/src/pages', ['index', 'blog/[slug]', 'docs/[...path]', 'shop/[[...filters]]'].map((page) => ({
+    name: page,
+    filePath: `/p/src/pages/${page}.zen`,
+    type: 'page' as const,
+    props: []
+})), new Map());
+
+test('dynamic and catch-all segments match any value', () => {
+    assert.equal(matchRoute(ROUTES, '/')?.path, '/');
+    assert.equal(matchRoute(ROUTES, '/blog/hello?draft=1#top')?.path, '/blog/[slug]');
+    assert.equal(matchRoute(ROUTES, '/blog'), null);
+    assert.equal(matchRoute(ROUTES, '/blog/a/b'), null);
+    assert.equal(matchRoute(ROUTES, '/docs/a/b')?.path, '/docs/[...path]');
+    assert.equal(matchRoute(ROUTES, '/docs'), null);
+    assert.equal(matchRoute(ROUTES, '/shop')?.path, '/shop/[[...filters]]');
+});
+
+test('unmatched paths suggest routes with their dynamic segments filled in', () => {
+    assert.deepEqual(suggestRoutes(ROUTES, '/blgo/hello'), ['/blog/hello']);
+    assert.deepEqual(suggestRoutes(ROUTES, '/completely-different'), []);
+});
+
+test('route references cover ZenLink values and router navigation calls', () => {
+    const doc = parseZenDocument([
+        '<script>',
+        "import { navigate, useRouter } from 'zenith/router'",
+        'const router = useRouter()',
+        "function go() { router.prefetch('/a'); other('/b') }",
+        '</script>',
+        '<ZenLink to="/c">C</ZenLink>',
+        '<ZenLink to={dynamic}>D</ZenLink>',
+        '<button on:click={() => navigate("/d")}>E</button>'
+    ].join('\n'));
+
+    assert.deepEqual(collectRouteReferences(doc).map((reference) => [reference.path, reference.source]), [
+        ['/a', 'prefetch'],
+        ['/c', 'ZenLink'],
+        ['/d', 'navigate']
+    ]);
+});
@@ -0,0 +1,127 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseZenDocument } from '../src/parser';
+import { desugarStateDeclarations, projectDocument, toGeneratedOffset, toSourceOffset } from '../src/script-projection';
+import {
+    collectTypeDiagnostics,
+    getScriptCompletions,
+    getScriptHover,
+    getScriptSignatureHelp,
+    resolveScriptCompletion
+} from '../src/typescript-service';
+import { createTextDocumentLike } from '../src/workspace';
+
+let counter = 0;
+
+function doc(text: string, relativePath = 'page.zen') {
+    counter++;
+    return createTextDocumentLike(`file:///tmp/zenith-ts-${counter}/${relativePath}`, text);
+}
+
+test('state declarations desugar to let without shifting offsets', () => {
+    const script = "\n  state count = 0\n  const label = 'state x = 1'\n";
+    const desugared = desugarStateDeclarations(script);
+
+    assert.equal(desugared.length, script.length);
+    assert.ok(desugared.includes('let   count = 0'));
+});
+
+test('typed state declarations desugar and type-check', () => {
+    const script = '\nstate count: number = 0\nstate onPick: (id: string) => void = () => {}\n';
+    assert.equal(desugarStateDeclarations(script), '\nlet   count: number = 0\nlet   onPick: (id: string) => void = () => {}\n');
+
+    const text = '<script>\nstate count: number = 0\nstate label: string = 1\ncount = count + 1\n</script>\n<p>{count}</p>';
+    const summary = collectTypeDiagnostics(doc(text)).map((d) => `${d.code}:${d.range.start.line}:${d.range.start.character}`);
+    assert.deepEqual(summary, ['TS2322:2:6']);
+});
+
+test('script projection maps offsets in both directions', () => {
+    const text = '<h1>Hi</h1>\n<script>\nstate a = 1\n</script>\n<script>\nconst b = a\n</script>';
+    const projection = projectDocument(parseZenDocument(text));
+    const bOffset = text.indexOf('const b');
+
+    const generated = toGeneratedOffset(projection, bOffset);
+    assert.ok(generated !== null);
+    assert.equal(projection.code.slice(generated, generated + 7), 'const b');
+    assert.equal(toSourceOffset(projection, generated), bOffset);
+    assert.equal(toGeneratedOffset(projection, text.indexOf('<h1>')), null);
+    assert.ok(projection.code.endsWith('export {};\n'));
+});
+
+test('template expressions are projected after the scripts with zen:for scopes', () => {
+    const text = '<script>\nstate items = [1]\n</script>\n<li zen:for="item, i in items" on:click={select(item)}>{item + i}</li>';
+    const projection = projectDocument(parseZenDocument(text));
+    const template = projection.code.slice(projection.templateStart);
+
+    assert.equal(template, '{\n__zenithFor((items), (item, i) => {\n(() => {select(item)\n});\n(item + i\n);\n});\n}\nexport {};\n');
+    const itemOffset = text.indexOf('item +');
+    assert.equal(toSourceOffset(projection, toGeneratedOffset(projection, itemOffset) ?? -1), itemOffset);
+});
+
+test('type errors in script code are reported at the .zen range', () => {
+    const text = '<script>\nstate count = 0\nconst label: number = "x"\ncount = count + 1\nMath.flor(count)\n</script>\n<p>{count}</p>';
+    const document = doc(text);
+
+    const diagnostics = collectTypeDiagnostics(document);
+    const summary = diagnostics.map((d) => `${d.code}:${d.range.start.line}:${d.range.start.character}`);
+
+    assert.deepEqual(summary, ['TS2322:2:6', 'TS2551:4:5']);
+    assert.ok(diagnostics.every((d) => d.source === 'zenith-ts'));
+});
+
+test('zenith imports and globals type-check through the ambient declarations', () => {
+    const text = "<script>\nimport { zenEffect } from 'zenith'\nimport { useRoute } from 'zenith/router'\nconst route = useRoute()\nzenEffect(() => { route.path.toUpperCase() })\nzenOnMount(() => {})\n</script>";
+
+    assert.deepEqual(collectTypeDiagnostics(doc(text)), []);
+
+    const asyncMount = '<script>\nzenOnMount(async () => {})\n</script>';
+    assert.deepEqual(collectTypeDiagnostics(doc(asyncMount)).map((d) => d.code), ['TS2345']);
+});
+
+test('completions come from TypeScript and resolve details', () => {
+    const text = '<script>\nconst user = { name: "Ada", age: 36 }\nuser.\n</script>';
+    const document = doc(text);
+    const offset = text.indexOf('user.\n') + 5;
+
+    const items = getScriptCompletions(document, offset);
+    assert.ok(items);
+    const name = items.find((item) => item.label === 'name');
+    assert.ok(name);
+    assert.equal(resolveScriptCompletion(document, name).detail, '(property) name: string');
+
+    assert.equal(getScriptCompletions(document, text.indexOf('<script>')), null);
+});
+
+test('hover and signature help map to script offsets', () => {
+    const text = '<script>\n/** Adds numbers. */\nfunction add(a: number, b: number) { return a + b }\nadd(1, )\n</script>';
+    const document = doc(text);
+
+    const hover = getScriptHover(document, text.indexOf('add(1') + 1);
+    assert.ok(hover);
+    assert.match(hover.contents, /function add\(a: number, b: number\): number/);
+    assert.match(hover.contents, /Adds numbers\./);
+    assert.deepEqual(hover.range.start, { line: 3, character: 0 });
+
+    const help = getScriptSignatureHelp(document, text.indexOf('add(1, ') + 7);
+    assert.ok(help);
+    assert.equal(help.signatures[0].label, 'add(a: number, b: number): number');
+    assert.equal(help.activeParameter, 1);
+});
+
+test('template expressions report type errors at the expression range', () => {
+    const text = '<script>\nstate user = { name: "Ada" }\nstate posts = [{ title: "Hi" }]\n</script>\n' +
+        '<h1>{user.nmae}</h1>\n<p zen:if="missing">x</p>\n<li zen:for="post in posts">{post.titel}</li>';
+    const document = doc(text, 'src/pages/index.zen');
+    const summary = collectTypeDiagnostics(document)
+        .map((d) => `${d.code}:${text.slice(document.offsetAt(d.range.start), document.offsetAt(d.range.end))}`);
+
+    assert.deepEqual(summary, ['TS2339:nmae', 'TS2304:missing', 'TS2551:titel']);
+});
+
+test('undeclared template identifiers are treated as props outside pages', () => {
+    const text = '<div class="card"><h2>{title}</h2><p>{subtitle.toFixed()}</p></div>';
+
+    assert.deepEqual(collectTypeDiagnostics(doc(text, 'src/components/Card.zen')), []);
+    assert.equal(collectTypeDiagnostics(doc(text, 'src/pages/card.zen')).length, 2);
+});
@@ -0,0 +1,73 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildUnusedSymbolCodeActions, UNUSED_SYMBOL_DIAGNOSTIC_CODE } from '../src/code-actions';
+import { parseZenDocument } from '../src/parser';
+import { collectUnusedSymbolDiagnostics } from '../src/unused-symbols';
+import { createTextDocumentLike } from '../src/workspace';
+
+const URI = 'file:///tmp/zenith-site/src/pages/index.zen';
+
+function unused(text: string) {
+    const document = createTextDocumentLike(URI, text);
+    return { document, diagnostics: collectUnusedSymbolDiagnostics(document, parseZenDocument(text)) };
+}
+
+function applyFix(text: string, name: string): string {
+    const { document, diagnostics } = unused(text);
+    const diagnostic = diagnostics.find((candidate) => candidate.message.startsWith(`'${name}'`));
+    assert.ok(diagnostic);
+
+    const [action] = buildUnusedSymbolCodeActions(document, [diagnostic]);
+    const [edit] = action.edit.changes[URI];
+    return text.slice(0, document.offsetAt(edit.range.start)) + edit.newText + text.slice(document.offsetAt(edit.range.end));
+}
+
+test('usage in the template counts for imports, states and functions', () => {
+    const text = [
+        '<script>',
+        "import { zenEffect, zenSignal } from 'zenith'",
+        "import Card from './Card.zen'",
+        'state count = 0',
+        'state label = "x"',
+        'function increment() { count++ }',
+        'const reset = () => { count = 0 }',
+        '</script>',
+        '<Card />',
+        '<button on:click={increment}>{count}</button>',
+        '<ul><li zen:for="label in items">{label}</li></ul>'
+    ].join('\n');
+
+    const { diagnostics } = unused(text);
+    assert.deepEqual(diagnostics.map((diagnostic) => diagnostic.message), [
+        "'zenEffect' is imported but never used.",
+        "'zenSignal' is imported but never used.",
+        "'label' is declared but never used.",
+        "'reset' is declared but never used."
+    ]);
+    assert.ok(diagnostics.every((diagnostic) =>
+        diagnostic.severity === 4 && diagnostic.code === UNUSED_SYMBOL_DIAGNOSTIC_CODE && diagnostic.tags?.includes(1)));
+});
+
+test('script references and exported declarations are not reported', () => {
+    const text = "<script>\nimport { zenOnMount } from 'zenith'\nstate n = 1\nexport function helper() {}\nzenOnMount(() => console.log(n))\n</script>";
+    assert.deepEqual(unused(text).diagnostics, []);
+});
+
+test('the quick fix removes the binding or its whole declaration', () => {
+    const text = "<script>\nimport Card, { zenEffect, zenSignal } from 'zenith'\nstate unusedCount = 0\nfunction go() {\n  return 1\n}\n</script>\n<Card />{zenSignal}";
+
+    assert.equal(applyFix(text, 'zenEffect'), text.replace('zenEffect, ', ''));
+    assert.equal(applyFix(text, 'unusedCount'), text.replace('state unusedCount = 0\n', ''));
+    assert.equal(applyFix(text, 'go'), text.replace('function go() {\n  return 1\n}\n', ''));
+    assert.equal(
+        applyFix("<script>\nimport { zenEffect } from 'zenith'\nstate n = 1\n</script>{n}", 'zenEffect'),
+        '<script>\nstate n = 1\n</script>{n}'
+    );
+});
+
+test('typed states are declarations like untyped ones', () => {
+    const text = '<script>\nstate count: number = 0\nstate total: number = 0\n</script>\n<p>{count}</p>';
+    assert.deepEqual(unused(text).diagnostics.map((diagnostic) => diagnostic.message), ["'total' is declared but never used."]);
+    assert.equal(applyFix(text, 'total'), text.replace('state total: number = 0\n', ''));
+});
@@ -0,0 +1,70 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { buildProjectGraph } from '../src/project';
+import { findWorkspaceSymbols, matchesSymbolQuery } from '../src/workspace-symbols';
+import { createTextDocumentLike } from '../src/workspace';
+import { filePathToUri } from '../src/uri';
+
+function createProject(files: Record<string, string>): string {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'zenith-lsp-wsym-'));
+    for (const [relative, content] of Object.entries(files)) {
+        const fullPath = path.join(root, relative);
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.writeFileSync(fullPath, content);
+    }
+    return root;
+}
+
+const PROJECT = {
+    'src/components/HeroBanner.zen': '<script>\nstate heading = "Hi"\nfunction dismissBanner() {}\n</script>\n<h1>{heading}</h1>',
+    'src/layouts/RootLayout.zen': '<main><slot /></main>',
+    'src/pages/index.zen': '<RootLayout><HeroBanner /></RootLayout>',
+    'src/pages/blog/[slug].zen': '<script>\nconst loadPost = async () => {}\n</script>\n<article />'
+};
+
+test('query matching is a case-insensitive subsequence match', () => {
+    assert.equal(matchesSymbolQuery('HeroBanner', 'hb'), true);
+    assert.equal(matchesSymbolQuery('HeroBanner', 'banner'), true);
+    assert.equal(matchesSymbolQuery('HeroBanner', 'bh'), false);
+    assert.equal(matchesSymbolQuery('anything', ''), true);
+});
+
+test('workspace symbols include components, layouts, pages and script symbols', () => {
+    const root = createProject(PROJECT);
+    const graph = buildProjectGraph(root);
+
+    const all = findWorkspaceSymbols(graph, '');
+    const summary = all.map((symbol) => `${symbol.kind}:${symbol.name}:${symbol.containerName}`).sort();
+
+    assert.deepEqual(summary, [
+        '12:dismissBanner:HeroBanner',
+        '12:loadPost:/blog/[slug]',
+        '13:heading:HeroBanner',
+        '1:/:page',
+        '1:/blog/[slug]:page',
+        '5:HeroBanner:component',
+        '5:RootLayout:layout'
+    ]);
+
+    const heading = all.find((symbol) => symbol.name === 'heading');
+    assert.equal(heading?.location.uri, filePathToUri(path.join(root, 'src/components/HeroBanner.zen')));
+    assert.deepEqual(heading?.location.range.start, { line: 1, character: 6 });
+});
+
+test('workspace symbols filter by query and prefer open documents', () => {
+    const root = createProject(PROJECT);
+    const graph = buildProjectGraph(root);
+
+    assert.deepEqual(findWorkspaceSymbols(graph, 'blog').map((symbol) => symbol.name), ['/blog/[slug]']);
+
+    const bannerUri = filePathToUri(path.join(root, 'src/components/HeroBanner.zen'));
+    const open = createTextDocumentLike(bannerUri, '<script>\nstate subtitle = ""\n</script>');
+    const names = findWorkspaceSymbols(graph, 'sub', (uri) => (uri === bannerUri ? open : undefined))
+        .map((symbol) => symbol.name);
+
+    assert.deepEqual(names, ['subtitle']);
+});